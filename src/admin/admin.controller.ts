@@ -0,0 +1,87 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { AdminGuard } from './admin.guard';
+import { AdminService, MentionSummary } from './admin.service';
+import { ApproveReviewDto } from './dto/approve-review.dto';
+import { MentionJob } from '../queue/mention-job.interface';
+import { EndpointRateLimit } from '../twitter/twitter-rate-limit.service';
+
+@Controller('admin')
+@UseGuards(AdminGuard)
+export class AdminController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @Get('mentions')
+  listMentions(
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ): Promise<MentionSummary[]> {
+    return this.adminService.listMentions(Math.min(Math.max(limit, 1), 500));
+  }
+
+  @Get('reviews')
+  listReviews(
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ): Promise<MentionJob[]> {
+    return this.adminService.listReviews(Math.min(Math.max(limit, 1), 500));
+  }
+
+  @Post('tweets/:tweetId/approve')
+  @HttpCode(202)
+  approve(
+    @Param('tweetId') tweetId: string,
+    @Body() body: ApproveReviewDto,
+  ): Promise<void> {
+    return this.adminService.approve(tweetId, body ?? {});
+  }
+
+  @Post('tweets/:tweetId/reject')
+  @HttpCode(204)
+  reject(@Param('tweetId') tweetId: string): Promise<void> {
+    return this.adminService.reject(tweetId);
+  }
+
+  @Get('quota')
+  getQuota() {
+    return this.adminService.getQuota();
+  }
+
+  @Get('rate-limits')
+  getRateLimits(): EndpointRateLimit[] {
+    return this.adminService.getRateLimits();
+  }
+
+  @Post('mentions/pause')
+  @HttpCode(204)
+  pause(): Promise<void> {
+    return this.adminService.pauseMentionPolling();
+  }
+
+  @Post('mentions/resume')
+  @HttpCode(204)
+  resume(): Promise<void> {
+    return this.adminService.resumeMentionPolling();
+  }
+
+  @Post('tweets/:tweetId/rerun')
+  @HttpCode(202)
+  rerun(@Param('tweetId') tweetId: string): Promise<void> {
+    return this.adminService.rerun(tweetId);
+  }
+
+  @Delete('tweets/:tweetId/processed')
+  @HttpCode(204)
+  clearProcessed(@Param('tweetId') tweetId: string): Promise<void> {
+    return this.adminService.clearProcessed(tweetId);
+  }
+}
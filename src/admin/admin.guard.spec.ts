@@ -0,0 +1,37 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminGuard } from './admin.guard';
+
+describe('AdminGuard', () => {
+  const context = (headers: Record<string, string>) =>
+    ({
+      switchToHttp: () => ({ getRequest: () => ({ headers }) }),
+    }) as unknown as ExecutionContext;
+
+  const guard = (key?: string) =>
+    new AdminGuard({ get: () => key } as unknown as ConfigService);
+
+  it('accepts the key as a bearer token or x-admin-key header', () => {
+    expect(
+      guard('secret').canActivate(context({ authorization: 'Bearer secret' })),
+    ).toBe(true);
+    expect(
+      guard('secret').canActivate(context({ 'x-admin-key': 'secret' })),
+    ).toBe(true);
+  });
+
+  it('rejects a wrong or missing key', () => {
+    expect(() =>
+      guard('secret').canActivate(context({ authorization: 'Bearer nope' })),
+    ).toThrow(UnauthorizedException);
+    expect(() => guard('secret').canActivate(context({}))).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects everything when no key is configured', () => {
+    expect(() =>
+      guard(undefined).canActivate(context({ 'x-admin-key': '' })),
+    ).toThrow(UnauthorizedException);
+  });
+});
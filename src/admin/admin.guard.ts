@@ -0,0 +1,46 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+
+/**
+ * Accepts requests carrying ADMIN_API_KEY as a bearer token or in the
+ * `x-admin-key` header. With no key configured every request is refused.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  private readonly logger = new Logger(AdminGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('ADMIN_API_KEY');
+    if (!expected) {
+      this.logger.warn('Admin request refused: ADMIN_API_KEY is not set');
+      throw new UnauthorizedException();
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const header = request.headers['x-admin-key'];
+    const provided =
+      (Array.isArray(header) ? header[0] : header) ??
+      request.headers.authorization?.replace(/^Bearer\s+/i, '');
+
+    if (!provided || !this.matches(provided, expected)) {
+      throw new UnauthorizedException();
+    }
+    return true;
+  }
+
+  private matches(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
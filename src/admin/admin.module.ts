@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { AuthorPolicyModule } from '../author-policy/author-policy.module';
+import { LaunchLedgerModule } from '../ledger/launch-ledger.module';
+import { QueueModule } from '../queue/queue.module';
+import { QuotaModule } from '../quota/quota.module';
+import { TwitterModule } from '../twitter/twitter.module';
+import { AdminController } from './admin.controller';
+import { AdminGuard } from './admin.guard';
+import { AdminService } from './admin.service';
+
+@Module({
+  imports: [
+    AuthorPolicyModule,
+    LaunchLedgerModule,
+    QueueModule,
+    QuotaModule,
+    TwitterModule,
+  ],
+  controllers: [AdminController],
+  providers: [AdminService, AdminGuard],
+})
+export class AdminModule {}
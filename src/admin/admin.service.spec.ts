@@ -0,0 +1,209 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdminService } from './admin.service';
+import { AuthorPolicyService } from '../author-policy/author-policy.service';
+import { LaunchLedgerService } from '../ledger/launch-ledger.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { QuotaService } from '../quota/quota.service';
+import { TwitterRateLimitService } from '../twitter/twitter-rate-limit.service';
+import { TwitterService } from '../twitter/twitter.service';
+
+describe('AdminService', () => {
+  let service: AdminService;
+  let launchLedger: Record<string, jest.Mock>;
+  let jobQueue: Record<string, jest.Mock>;
+  let twitterService: Record<string, jest.Mock>;
+  let authorPolicy: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    launchLedger = {
+      listRecent: jest.fn(),
+      clearProcessed: jest.fn().mockResolvedValue(true),
+      markProcessed: jest.fn(),
+    };
+    jobQueue = {
+      findByTweetIds: jest.fn(),
+      reset: jest.fn().mockResolvedValue(true),
+      find: jest.fn(),
+      complete: jest.fn(),
+    };
+    twitterService = { ingestTweetById: jest.fn() };
+    authorPolicy = { check: jest.fn().mockResolvedValue({ allowed: true }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        { provide: LaunchLedgerService, useValue: launchLedger },
+        { provide: JobQueueService, useValue: jobQueue },
+        { provide: TwitterService, useValue: twitterService },
+        { provide: QuotaService, useValue: {} },
+        { provide: TwitterRateLimitService, useValue: {} },
+        { provide: AuthorPolicyService, useValue: authorPolicy },
+      ],
+    }).compile();
+
+    service = module.get<AdminService>(AdminService);
+  });
+
+  it('lists mentions with their job state', async () => {
+    launchLedger.listRecent.mockResolvedValue([
+      { tweetId: '1', outcome: 'created' },
+      { tweetId: '2', outcome: 'not_a_request' },
+    ]);
+    jobQueue.findByTweetIds.mockResolvedValue([
+      { tweetId: '1', stage: 'replied', status: 'done', attempts: 0 },
+    ]);
+
+    const mentions = await service.listMentions(10);
+
+    expect(mentions[0].job).toEqual({
+      stage: 'replied',
+      status: 'done',
+      attempts: 0,
+      lastError: undefined,
+    });
+    expect(mentions[1].job).toBeUndefined();
+  });
+
+  const queued = (status: string) => ({
+    tweetId: '1',
+    stage: 'extracted',
+    status,
+    payload: {
+      text: '@bot launch $PAL',
+      authorId: 'a1',
+      authorUsername: 'alice',
+    },
+  });
+
+  it('re-runs a queued tweet from the first stage', async () => {
+    jobQueue.find.mockResolvedValue(queued('dead_letter'));
+
+    await service.rerun('1');
+
+    expect(launchLedger.clearProcessed).toHaveBeenCalledWith('1');
+    expect(jobQueue.reset).toHaveBeenCalledWith('1', 'ingested');
+    expect(twitterService.ingestTweetById).not.toHaveBeenCalled();
+  });
+
+  it('fetches a tweet that was never queued', async () => {
+    twitterService.ingestTweetById.mockResolvedValue(false);
+
+    await expect(service.rerun('1')).rejects.toThrow(NotFoundException);
+    expect(twitterService.ingestTweetById).toHaveBeenCalledWith('1');
+  });
+
+  it('refuses to re-run a tweet while its job is running', async () => {
+    jobQueue.find.mockResolvedValue(queued('running'));
+
+    await expect(service.rerun('1')).rejects.toThrow(ConflictException);
+    expect(launchLedger.clearProcessed).not.toHaveBeenCalled();
+    expect(jobQueue.reset).not.toHaveBeenCalled();
+  });
+
+  it('refuses a re-run when the job is claimed in the meantime', async () => {
+    jobQueue.find.mockResolvedValue(queued('pending'));
+    jobQueue.reset.mockResolvedValue(false);
+
+    await expect(service.rerun('1')).rejects.toThrow(ConflictException);
+    expect(twitterService.ingestTweetById).not.toHaveBeenCalled();
+  });
+
+  it('requeues a cleared tweet from the stage it reached', async () => {
+    jobQueue.find.mockResolvedValue(queued('dead_letter'));
+
+    await service.clearProcessed('1');
+    expect(jobQueue.reset).toHaveBeenCalledWith('1', undefined);
+  });
+
+  it('refuses to clear a tweet while its job is running', async () => {
+    jobQueue.find.mockResolvedValue(queued('running'));
+
+    await expect(service.clearProcessed('1')).rejects.toThrow(
+      ConflictException,
+    );
+    expect(launchLedger.clearProcessed).not.toHaveBeenCalled();
+  });
+
+  it('clears a tweet that has no job', async () => {
+    await service.clearProcessed('1');
+
+    expect(launchLedger.clearProcessed).toHaveBeenCalledWith('1');
+    expect(jobQueue.reset).not.toHaveBeenCalled();
+  });
+
+  describe('manual review', () => {
+    const held = (payload = {}) => ({
+      tweetId: '1',
+      stage: 'ingested',
+      status: 'manual_review',
+      payload: { text: '', tokenName: 'Pal', tokenSymbol: 'PAL', ...payload },
+    });
+
+    it('approves with the extracted details', async () => {
+      jobQueue.find.mockResolvedValue(held());
+
+      await service.approve('1');
+
+      expect(jobQueue.reset).toHaveBeenCalledWith(
+        '1',
+        'classified',
+        expect.objectContaining({ tokenName: 'Pal', tokenSymbol: 'PAL' }),
+      );
+    });
+
+    it('still applies the author policy', async () => {
+      jobQueue.find.mockResolvedValue(
+        held({ authorId: 'a1', authorUsername: 'spammer' }),
+      );
+      authorPolicy.check.mockResolvedValue({
+        allowed: false,
+        reason: 'denylisted',
+      });
+
+      await expect(service.approve('1')).rejects.toThrow(ConflictException);
+
+      expect(authorPolicy.check).toHaveBeenCalledWith(
+        '1',
+        expect.objectContaining({ id: 'a1', username: 'spammer' }),
+      );
+      expect(jobQueue.reset).not.toHaveBeenCalled();
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'rejected',
+      });
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('validates operator-supplied details', async () => {
+      jobQueue.find.mockResolvedValue(held());
+
+      await expect(service.approve('1', { symbol: 'no way!' })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(jobQueue.reset).not.toHaveBeenCalled();
+    });
+
+    it('only acts on held jobs', async () => {
+      jobQueue.find.mockResolvedValue({ ...held(), status: 'done' });
+
+      await expect(service.reject('1')).rejects.toThrow(ConflictException);
+    });
+
+    it('rejects a held job as not a request', async () => {
+      jobQueue.find.mockResolvedValue(held());
+
+      await service.reject('1');
+
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'not_a_request',
+      });
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+  });
+});
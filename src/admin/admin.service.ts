@@ -0,0 +1,202 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { validateTokenDetails } from '../analysis/token-details.schema';
+import { AuthorPolicyService } from '../author-policy/author-policy.service';
+import { LaunchLedgerService } from '../ledger/launch-ledger.service';
+import { LaunchRecord } from '../ledger/launch-record.interface';
+import { JobQueueService } from '../queue/job-queue.service';
+import { JobStage, MentionJob } from '../queue/mention-job.interface';
+import { QuotaService } from '../quota/quota.service';
+import {
+  EndpointRateLimit,
+  TwitterRateLimitService,
+} from '../twitter/twitter-rate-limit.service';
+import { TwitterService } from '../twitter/twitter.service';
+import { ApproveReviewDto } from './dto/approve-review.dto';
+
+export interface MentionSummary extends LaunchRecord {
+  job?: Pick<MentionJob, 'stage' | 'status' | 'attempts' | 'lastError'>;
+}
+
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly launchLedger: LaunchLedgerService,
+    private readonly jobQueue: JobQueueService,
+    private readonly twitterService: TwitterService,
+    private readonly quota: QuotaService,
+    private readonly twitterRateLimits: TwitterRateLimitService,
+    private readonly authorPolicy: AuthorPolicyService,
+  ) {}
+
+  async listMentions(limit: number): Promise<MentionSummary[]> {
+    const records = await this.launchLedger.listRecent(limit);
+    const jobs = await this.jobQueue.findByTweetIds(
+      records.map((record) => record.tweetId),
+    );
+    const jobsByTweet = new Map(jobs.map((job) => [job.tweetId, job]));
+
+    return records.map((record) => {
+      const job = jobsByTweet.get(record.tweetId);
+      return job
+        ? {
+            ...record,
+            job: {
+              stage: job.stage,
+              status: job.status,
+              attempts: job.attempts,
+              lastError: job.lastError,
+            },
+          }
+        : record;
+    });
+  }
+
+  listReviews(limit: number): Promise<MentionJob[]> {
+    return this.jobQueue.findByStatus('manual_review', limit);
+  }
+
+  /**
+   * Sends a held mention on to coin creation, with the classifier's token
+   * details or the ones given here. The author limits still apply, since
+   * the job was held before the pipeline got to them.
+   */
+  async approve(tweetId: string, overrides: ApproveReviewDto = {}) {
+    const job = await this.getHeldJob(tweetId);
+    const validation = validateTokenDetails({
+      name: overrides.name ?? job.payload.tokenName ?? null,
+      symbol: overrides.symbol ?? job.payload.tokenSymbol ?? null,
+      description:
+        overrides.description ?? job.payload.tokenDescription ?? null,
+    });
+    if (!validation.value) {
+      throw new BadRequestException(
+        validation.violations.map((v) => `${v.field} ${v.message}`),
+      );
+    }
+
+    const verdict = await this.authorPolicy.check(tweetId, {
+      id: job.payload.authorId,
+      username: job.payload.authorUsername,
+      createdAt: job.payload.authorCreatedAt,
+      followersCount: job.payload.authorFollowersCount,
+    });
+    if (!verdict.allowed) {
+      await this.launchLedger.markProcessed({ tweetId, outcome: 'rejected' });
+      await this.jobQueue.complete(job);
+      throw new ConflictException(
+        `Author of tweet ${tweetId} was turned down (${verdict.reason})`,
+      );
+    }
+
+    await this.jobQueue.reset(tweetId, 'classified', {
+      intent: 'token_request',
+      tokenName: validation.value.name,
+      tokenSymbol: validation.value.symbol,
+      tokenDescription: validation.value.description,
+    });
+    this.logger.log(`Approved held tweet ${tweetId}`);
+  }
+
+  async reject(tweetId: string): Promise<void> {
+    const job = await this.getHeldJob(tweetId);
+    await this.launchLedger.markProcessed({
+      tweetId,
+      outcome: 'not_a_request',
+    });
+    await this.jobQueue.complete(job);
+    this.logger.log(`Rejected held tweet ${tweetId}`);
+  }
+
+  async getQuota() {
+    return {
+      timezone: this.quota.getTimezone(),
+      buckets: await this.quota.getUsage(),
+      mentionPollingPaused: await this.twitterService.isMentionPollingPaused(),
+    };
+  }
+
+  getRateLimits(): EndpointRateLimit[] {
+    return this.twitterRateLimits.getLimits();
+  }
+
+  async pauseMentionPolling(): Promise<void> {
+    await this.twitterService.pauseMentionPolling();
+  }
+
+  async resumeMentionPolling(): Promise<void> {
+    await this.twitterService.resumeMentionPolling();
+  }
+
+  /**
+   * Runs a tweet through the pipeline again from the start. Coin creation
+   * stays idempotent, so a tweet that already has a mint is not minted twice.
+   */
+  async rerun(tweetId: string): Promise<void> {
+    const job = await this.getIdleJob(tweetId);
+    await this.launchLedger.clearProcessed(tweetId);
+    if (job) {
+      await this.resetJob(tweetId, 'ingested');
+      this.logger.log(`Re-running tweet ${tweetId} from the start`);
+      return;
+    }
+    if (!(await this.twitterService.ingestTweetById(tweetId))) {
+      throw new NotFoundException(`Tweet ${tweetId} not found`);
+    }
+    this.logger.log(`Fetched and queued tweet ${tweetId}`);
+  }
+
+  /**
+   * Clears the processed mark and retries the tweet from the stage it
+   * reached, e.g. to revive a dead-lettered job.
+   */
+  async clearProcessed(tweetId: string): Promise<void> {
+    const job = await this.getIdleJob(tweetId);
+    const cleared = await this.launchLedger.clearProcessed(tweetId);
+    if (job) {
+      await this.resetJob(tweetId);
+    } else if (!cleared) {
+      throw new NotFoundException(`No record of tweet ${tweetId}`);
+    }
+    this.logger.log(`Cleared processed mark for tweet ${tweetId}`);
+  }
+
+  // A worker holding the job would overwrite the reset when it finishes
+  private async getIdleJob(tweetId: string): Promise<MentionJob | null> {
+    const job = await this.jobQueue.find(tweetId);
+    if (job?.status === 'running') {
+      throw new ConflictException(
+        `Tweet ${tweetId} is being processed, try again once it is done`,
+      );
+    }
+    return job;
+  }
+
+  private async resetJob(tweetId: string, stage?: JobStage): Promise<void> {
+    if (!(await this.jobQueue.reset(tweetId, stage))) {
+      throw new ConflictException(
+        `Tweet ${tweetId} is being processed, try again once it is done`,
+      );
+    }
+  }
+
+  private async getHeldJob(tweetId: string): Promise<MentionJob> {
+    const job = await this.jobQueue.find(tweetId);
+    if (!job) {
+      throw new NotFoundException(`No job for tweet ${tweetId}`);
+    }
+    if (job.status !== 'manual_review') {
+      throw new ConflictException(
+        `Tweet ${tweetId} is not awaiting review (status ${job.status})`,
+      );
+    }
+    return job;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Token details an operator can supply when approving a held mention.
+ * Anything left out falls back to what the classifier extracted.
+ */
+export class ApproveReviewDto {
+  name?: string;
+  symbol?: string;
+  description?: string;
+}
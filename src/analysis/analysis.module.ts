@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LlmModule } from '../llm/llm.module';
+import { TokenAnalyzerService } from './token-analyzer.service';
+
+@Module({
+  imports: [LlmModule],
+  providers: [TokenAnalyzerService],
+  exports: [TokenAnalyzerService],
+})
+export class AnalysisModule {}
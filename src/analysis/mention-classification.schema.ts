@@ -0,0 +1,94 @@
+import { LlmJsonSchema } from '../llm/llm-provider.interface';
+import {
+  TOKEN_DETAILS_PROPERTIES,
+  TokenDetails,
+  TokenDetailsViolation,
+} from './token-details.schema';
+import { TokenExtractionError } from './token-extraction.error';
+import {
+  TOKEN_PERSONA_FIELDS,
+  TOKEN_PERSONA_PROPERTIES,
+} from './token-persona.schema';
+
+export const MENTION_INTENTS = ['token_request', 'question', 'other'] as const;
+
+export type MentionIntent = (typeof MENTION_INTENTS)[number];
+
+export interface MentionClassification {
+  intent: MentionIntent;
+  // 0 to 1, as reported by the classifier
+  confidence: number;
+  // Present for a token request whose details passed validation
+  details?: TokenDetails;
+  // Present for a token request whose details could not be extracted
+  extractionError?: TokenExtractionError;
+}
+
+export const MENTION_CLASSIFICATION_JSON_SCHEMA: LlmJsonSchema = {
+  name: 'mention_classification',
+  schema: {
+    type: 'object',
+    properties: {
+      intent: { type: 'string', enum: [...MENTION_INTENTS] },
+      confidence: {
+        type: 'number',
+        description: 'How sure you are of the intent, from 0 to 1',
+      },
+      ...TOKEN_DETAILS_PROPERTIES,
+      ...TOKEN_PERSONA_PROPERTIES,
+    },
+    required: [
+      'intent',
+      'confidence',
+      'name',
+      'symbol',
+      'description',
+      ...TOKEN_PERSONA_FIELDS,
+    ],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Checks the intent and confidence fields of a classifier response. Token
+ * details are validated separately, and only for token requests.
+ */
+export function validateClassificationFields(raw: unknown): {
+  intent?: MentionIntent;
+  confidence?: number;
+  violations: TokenDetailsViolation[];
+} {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {
+      violations: [{ field: 'response', message: 'must be a JSON object' }],
+    };
+  }
+
+  const { intent, confidence } = raw as Record<string, unknown>;
+  const violations: TokenDetailsViolation[] = [];
+  if (!MENTION_INTENTS.includes(intent as MentionIntent)) {
+    violations.push({
+      field: 'response',
+      message: `intent must be one of ${MENTION_INTENTS.join(', ')}`,
+    });
+  }
+  if (
+    typeof confidence !== 'number' ||
+    Number.isNaN(confidence) ||
+    confidence < 0 ||
+    confidence > 1
+  ) {
+    violations.push({
+      field: 'response',
+      message: 'confidence must be a number from 0 to 1',
+    });
+  }
+
+  return violations.length > 0
+    ? { violations }
+    : {
+        intent: intent as MentionIntent,
+        confidence: confidence as number,
+        violations,
+      };
+}
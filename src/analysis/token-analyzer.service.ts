@@ -0,0 +1,141 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LlmMessage } from '../llm/llm-provider.interface';
+import { LlmService } from '../llm/llm.service';
+import {
+  MENTION_CLASSIFICATION_JSON_SCHEMA,
+  MentionClassification,
+  validateClassificationFields,
+} from './mention-classification.schema';
+import {
+  TokenDetailsViolation,
+  validateTokenDetails,
+} from './token-details.schema';
+import { TokenExtractionError } from './token-extraction.error';
+import { validateTokenPersona } from './token-persona.schema';
+
+@Injectable()
+export class TokenAnalyzerService {
+  private readonly logger = new Logger(TokenAnalyzerService.name);
+
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Classifies a mention and extracts its token details in one structured
+   * call. Schema violations get a repair prompt; a token request whose
+   * details still don't validate comes back with an extractionError.
+   */
+  async classifyMention(tweetText: string): Promise<MentionClassification> {
+    const followUp: LlmMessage[] = [];
+    const maxRepairs = parseInt(
+      this.configService.get('LLM_CLASSIFY_REPAIR_ATTEMPTS') ?? '1',
+    );
+    let violations: TokenDetailsViolation[] = [];
+    let classification: MentionClassification | undefined;
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+      const response = await this.llmService.complete('classify', tweetText, {
+        responseSchema: MENTION_CLASSIFICATION_JSON_SCHEMA,
+        followUp,
+      });
+
+      const result = this.parseJson(response.content);
+      const fields = validateClassificationFields(result);
+      violations = fields.violations;
+
+      if (violations.length === 0) {
+        this.logger.log('\nTweet Analysis:');
+        this.logger.log(`Tweet: ${tweetText}`);
+        this.logger.log(
+          `Intent: ${fields.intent} (confidence ${fields.confidence}, ${response.provider})`,
+        );
+
+        if (fields.intent !== 'token_request') {
+          return { intent: fields.intent, confidence: fields.confidence };
+        }
+
+        const validation = validateTokenDetails(result);
+        if (validation.value) {
+          this.logger.log('Token Details Analysis:');
+          this.logger.log(`Name: ${validation.value.name}`);
+          this.logger.log(`Symbol: ${validation.value.symbol}`);
+          this.logger.log(
+            `Description: ${validation.value.description || 'None provided'}`,
+          );
+
+          // Persona fields are extras; ones that don't pass are dropped
+          // rather than holding up the launch
+          const persona = validateTokenPersona(result);
+          if (persona.violations.length > 0) {
+            this.logger.warn(
+              `Dropping invalid persona fields: ${persona.violations
+                .map((v) => `${v.field} ${v.message}`)
+                .join('; ')}`,
+            );
+          }
+          return {
+            intent: fields.intent,
+            confidence: fields.confidence,
+            details: {
+              ...validation.value,
+              persona: Object.keys(persona.value).length
+                ? persona.value
+                : undefined,
+            },
+          };
+        }
+
+        violations = validation.violations;
+        classification = {
+          intent: fields.intent,
+          confidence: fields.confidence,
+          extractionError: TokenExtractionError.fromViolations(violations),
+        };
+        // A tweet without any token in it won't be fixed by asking again
+        if (classification.extractionError.reason === 'no_token_details') {
+          return classification;
+        }
+      }
+
+      this.logger.warn(
+        `Classification failed validation (attempt ${attempt + 1}): ${violations
+          .map((v) => `${v.field} ${v.message}`)
+          .join('; ')}`,
+      );
+      followUp.push(
+        { role: 'assistant', content: response.content },
+        {
+          role: 'user',
+          content: `That response is invalid: ${violations
+            .map((v) => `${v.field} ${v.message}`)
+            .join(
+              '; ',
+            )}. Reply again with only a JSON object matching the schema, fixing these problems while staying faithful to the tweet.`,
+        },
+      );
+    }
+
+    if (classification) {
+      return classification;
+    }
+    throw TokenExtractionError.fromViolations(violations);
+  }
+
+  private parseJson(content: string): unknown {
+    try {
+      // Providers without native structured output may still wrap JSON in fences
+      return JSON.parse(
+        content
+          .trim()
+          .replace(/```json\n?/g, '')
+          .replace(/```\n?/g, '')
+          .trim(),
+      );
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,133 @@
+import { TokenPersona } from './token-persona.schema';
+
+export const TOKEN_NAME_MAX_LENGTH = 32;
+export const TOKEN_SYMBOL_MIN_LENGTH = 2;
+export const TOKEN_SYMBOL_MAX_LENGTH = 10;
+export const TOKEN_DESCRIPTION_MAX_LENGTH = 500;
+
+const SYMBOL_PATTERN = /^[A-Z0-9]+$/;
+// Letters, digits, spaces and light punctuation; no control characters or emoji
+const NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} .'&-]*$/u;
+
+export interface TokenDetails {
+  name: string;
+  symbol: string;
+  description?: string;
+  // Agent persona and socials, when the tweet gave any that passed
+  persona?: TokenPersona;
+}
+
+export type TokenDetailsField = 'name' | 'symbol' | 'description';
+
+export interface TokenDetailsViolation {
+  field: TokenDetailsField | 'response';
+  message: string;
+}
+
+export interface TokenDetailsValidation {
+  // Set only when there are no violations
+  value?: TokenDetails;
+  violations: TokenDetailsViolation[];
+}
+
+export const TOKEN_DETAILS_PROPERTIES = {
+  name: {
+    type: ['string', 'null'],
+    description: `Token name, at most ${TOKEN_NAME_MAX_LENGTH} characters, or null if none was given`,
+  },
+  symbol: {
+    type: ['string', 'null'],
+    description: `Ticker of ${TOKEN_SYMBOL_MIN_LENGTH}-${TOKEN_SYMBOL_MAX_LENGTH} uppercase letters or digits, or null if none was given`,
+  },
+  description: {
+    type: ['string', 'null'],
+    description: `Short description, at most ${TOKEN_DESCRIPTION_MAX_LENGTH} characters, or null`,
+  },
+};
+
+// The words "token" and "coin" are never part of a name or symbol
+const stripReservedWords = (value: string) =>
+  value
+    .replace(/token|coin/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Normalizes and checks a model's token details. Returns every violation
+ * rather than the first, so a repair prompt can address them together.
+ */
+export function validateTokenDetails(raw: unknown): TokenDetailsValidation {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return {
+      violations: [{ field: 'response', message: 'must be a JSON object' }],
+    };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const violations: TokenDetailsViolation[] = [];
+  const optionalString = (field: TokenDetailsField): string | null => {
+    const value = input[field];
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value !== 'string') {
+      violations.push({ field, message: 'must be a string or null' });
+      return null;
+    }
+    return value;
+  };
+
+  const rawName = optionalString('name');
+  const rawSymbol = optionalString('symbol');
+  const rawDescription = optionalString('description');
+
+  const name = rawName === null ? '' : stripReservedWords(rawName);
+  const symbol =
+    rawSymbol === null
+      ? ''
+      : stripReservedWords(rawSymbol.replace(/^\$/, '')).toUpperCase();
+  const description = rawDescription?.trim() || undefined;
+
+  if (!name) {
+    violations.push({ field: 'name', message: 'is missing' });
+  } else if (name.length > TOKEN_NAME_MAX_LENGTH) {
+    violations.push({
+      field: 'name',
+      message: `must be at most ${TOKEN_NAME_MAX_LENGTH} characters`,
+    });
+  } else if (!NAME_PATTERN.test(name)) {
+    violations.push({
+      field: 'name',
+      message: "may only contain letters, digits, spaces and . ' & -",
+    });
+  }
+
+  if (!symbol) {
+    violations.push({ field: 'symbol', message: 'is missing' });
+  } else if (
+    symbol.length < TOKEN_SYMBOL_MIN_LENGTH ||
+    symbol.length > TOKEN_SYMBOL_MAX_LENGTH
+  ) {
+    violations.push({
+      field: 'symbol',
+      message: `must be ${TOKEN_SYMBOL_MIN_LENGTH}-${TOKEN_SYMBOL_MAX_LENGTH} characters`,
+    });
+  } else if (!SYMBOL_PATTERN.test(symbol)) {
+    violations.push({
+      field: 'symbol',
+      message: 'may only contain letters A-Z and digits',
+    });
+  }
+
+  if (description && description.length > TOKEN_DESCRIPTION_MAX_LENGTH) {
+    violations.push({
+      field: 'description',
+      message: `must be at most ${TOKEN_DESCRIPTION_MAX_LENGTH} characters`,
+    });
+  }
+
+  if (violations.length > 0) {
+    return { violations };
+  }
+  return { value: { name, symbol, description }, violations };
+}
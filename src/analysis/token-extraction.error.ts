@@ -0,0 +1,49 @@
+import { TokenDetailsViolation } from './token-details.schema';
+
+export type TokenExtractionFailure =
+  // The tweet names no token at all
+  | 'no_token_details'
+  | 'invalid_name'
+  | 'invalid_symbol'
+  | 'invalid_description'
+  // The model never produced parseable JSON
+  | 'malformed_response';
+
+export class TokenExtractionError extends Error {
+  constructor(
+    readonly reason: TokenExtractionFailure,
+    readonly violations: TokenDetailsViolation[] = [],
+  ) {
+    super(
+      `Token extraction failed (${reason})` +
+        (violations.length
+          ? `: ${violations.map((v) => `${v.field} ${v.message}`).join('; ')}`
+          : ''),
+    );
+    this.name = TokenExtractionError.name;
+  }
+
+  /**
+   * Picks the reason to report from a set of violations. A missing name
+   * and symbol together mean the tweet simply didn't name a token.
+   */
+  static fromViolations(
+    violations: TokenDetailsViolation[],
+  ): TokenExtractionError {
+    const missing = (field: string) =>
+      violations.some((v) => v.field === field && v.message === 'is missing');
+    const has = (field: string) => violations.some((v) => v.field === field);
+
+    let reason: TokenExtractionFailure = 'malformed_response';
+    if (missing('name') && missing('symbol')) {
+      reason = 'no_token_details';
+    } else if (has('name')) {
+      reason = 'invalid_name';
+    } else if (has('symbol')) {
+      reason = 'invalid_symbol';
+    } else if (has('description')) {
+      reason = 'invalid_description';
+    }
+    return new TokenExtractionError(reason, violations);
+  }
+}
@@ -0,0 +1,206 @@
+export const TOKEN_PERSONA_FIELDS = [
+  'personality',
+  'instructions',
+  'knowledge',
+  'twitter',
+  'telegram',
+  'website',
+] as const;
+
+export type TokenPersonaField = (typeof TOKEN_PERSONA_FIELDS)[number];
+
+// How the token's agent behaves, plus its socials. Socials are links.
+export type TokenPersona = Partial<Record<TokenPersonaField, string>>;
+
+export interface TokenPersonaViolation {
+  field: TokenPersonaField;
+  message: string;
+}
+
+export interface TokenPersonaValidation {
+  // The fields that passed, normalized
+  value: TokenPersona;
+  violations: TokenPersonaViolation[];
+}
+
+export const TOKEN_PERSONA_MAX_LENGTHS: Record<
+  'personality' | 'instructions' | 'knowledge',
+  number
+> = {
+  personality: 200,
+  instructions: 500,
+  knowledge: 1000,
+};
+
+const WEBSITE_MAX_LENGTH = 200;
+const TWITTER_HANDLE = /^[A-Za-z0-9_]{1,15}$/;
+const TELEGRAM_HANDLE = /^[A-Za-z][A-Za-z0-9_]{4,31}$/;
+
+// Newlines are fine in free text; other control characters are not
+const hasControlCharacters = (text: string) =>
+  [...text].some((char) => {
+    const code = char.charCodeAt(0);
+    return (code < 0x20 && char !== '\n') || (code >= 0x7f && code < 0xa0);
+  });
+
+export const TOKEN_PERSONA_PROPERTIES = {
+  personality: {
+    type: ['string', 'null'],
+    description: `How the token's agent should talk, at most ${TOKEN_PERSONA_MAX_LENGTHS.personality} characters, or null`,
+  },
+  instructions: {
+    type: ['string', 'null'],
+    description: `Instructions for the token's agent, at most ${TOKEN_PERSONA_MAX_LENGTHS.instructions} characters, or null`,
+  },
+  knowledge: {
+    type: ['string', 'null'],
+    description: `Background the token's agent should know, at most ${TOKEN_PERSONA_MAX_LENGTHS.knowledge} characters, or null`,
+  },
+  twitter: {
+    type: ['string', 'null'],
+    description: 'Twitter/X handle or profile link for the token, or null',
+  },
+  telegram: {
+    type: ['string', 'null'],
+    description: 'Telegram handle or t.me link for the token, or null',
+  },
+  website: {
+    type: ['string', 'null'],
+    description: 'Website URL for the token, or null',
+  },
+};
+
+// Accepts `@name`, `name`, or a profile link on one of the given hosts
+function parseHandle(
+  value: string,
+  hosts: string[],
+  pattern: RegExp,
+): string | null {
+  let handle = value.replace(/^@/, '');
+  const link = value.match(
+    /^(?:https?:\/\/)?(?:www\.)?([^/]+)\/([^/?#]+)\/?$/i,
+  );
+  if (link) {
+    if (!hosts.includes(link[1].toLowerCase())) {
+      return null;
+    }
+    handle = link[2].replace(/^@/, '');
+  }
+  return pattern.test(handle) ? handle : null;
+}
+
+function parseWebsite(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(
+      /^[a-z][a-z0-9+.-]*:/i.test(value) ? value : `https://${value}`,
+    );
+  } catch {
+    return null;
+  }
+  if (
+    !['http:', 'https:'].includes(url.protocol) ||
+    url.username ||
+    url.password ||
+    !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(url.hostname)
+  ) {
+    return null;
+  }
+  return url.toString();
+}
+
+/**
+ * Normalizes and checks persona fields, from a tweet or from the operator
+ * defaults. Missing fields are fine; fields that don't pass are left out of
+ * the value and reported as violations.
+ */
+export function validateTokenPersona(raw: unknown): TokenPersonaValidation {
+  const value: TokenPersona = {};
+  const violations: TokenPersonaViolation[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { value, violations };
+  }
+
+  const input = raw as Record<string, unknown>;
+  for (const field of TOKEN_PERSONA_FIELDS) {
+    const rawValue = input[field];
+    if (rawValue === null || rawValue === undefined) {
+      continue;
+    }
+    if (typeof rawValue !== 'string') {
+      violations.push({ field, message: 'must be a string or null' });
+      continue;
+    }
+    const text = rawValue.trim();
+    if (!text) {
+      continue;
+    }
+
+    switch (field) {
+      case 'twitter': {
+        const handle = parseHandle(
+          text,
+          ['twitter.com', 'x.com'],
+          TWITTER_HANDLE,
+        );
+        if (handle) {
+          value.twitter = `https://x.com/${handle}`;
+        } else {
+          violations.push({
+            field,
+            message:
+              'must be a Twitter handle of up to 15 letters, digits or _',
+          });
+        }
+        break;
+      }
+      case 'telegram': {
+        const handle = parseHandle(
+          text,
+          ['t.me', 'telegram.me'],
+          TELEGRAM_HANDLE,
+        );
+        if (handle) {
+          value.telegram = `https://t.me/${handle}`;
+        } else {
+          violations.push({
+            field,
+            message: 'must be a Telegram handle of 5-32 letters, digits or _',
+          });
+        }
+        break;
+      }
+      case 'website': {
+        const url = parseWebsite(text);
+        if (!url) {
+          violations.push({ field, message: 'must be an http(s) URL' });
+        } else if (url.length > WEBSITE_MAX_LENGTH) {
+          violations.push({
+            field,
+            message: `must be at most ${WEBSITE_MAX_LENGTH} characters`,
+          });
+        } else {
+          value.website = url;
+        }
+        break;
+      }
+      default: {
+        const maxLength = TOKEN_PERSONA_MAX_LENGTHS[field];
+        if (text.length > maxLength) {
+          violations.push({
+            field,
+            message: `must be at most ${maxLength} characters`,
+          });
+        } else if (hasControlCharacters(text)) {
+          violations.push({
+            field,
+            message: 'must not contain control characters',
+          });
+        } else {
+          value[field] = text;
+        }
+      }
+    }
+  }
+  return { value, violations };
+}
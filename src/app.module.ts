@@ -1,6 +1,10 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
+import { AdminModule } from './admin/admin.module';
+import { DatabaseModule } from './database/database.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { PipelineModule } from './pipeline/pipeline.module';
 import { TwitterModule } from './twitter/twitter.module';
 
 @Module({
@@ -9,7 +13,11 @@ import { TwitterModule } from './twitter/twitter.module';
       isGlobal: true,
     }),
     ScheduleModule.forRoot(),
+    DatabaseModule,
+    MetricsModule,
     TwitterModule,
+    PipelineModule,
+    AdminModule,
   ],
 })
 export class AppModule {}
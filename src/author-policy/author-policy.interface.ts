@@ -0,0 +1,23 @@
+export type AuthorRejectionReason =
+  | 'denylisted'
+  | 'account_too_new'
+  | 'too_few_followers'
+  | 'hourly_limit'
+  | 'daily_limit'
+  // Still serving the cooldown from an earlier limit breach
+  | 'cooldown';
+
+export interface AuthorProfile {
+  id: string;
+  username: string;
+  // Missing for jobs queued before the profile was captured; those checks
+  // are skipped rather than failed
+  createdAt?: string;
+  followersCount?: number;
+}
+
+export interface AuthorCheckResult {
+  allowed: boolean;
+  reason?: AuthorRejectionReason;
+  cooldownUntil?: Date;
+}
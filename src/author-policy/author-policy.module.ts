@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { AuthorPolicyService } from './author-policy.service';
+
+@Module({
+  providers: [AuthorPolicyService],
+  exports: [AuthorPolicyService],
+})
+export class AuthorPolicyModule {}
@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PG_POOL } from '../database/database.constants';
+import { AuthorProfile } from './author-policy.interface';
+import { AuthorPolicyService } from './author-policy.service';
+
+describe('AuthorPolicyService', () => {
+  let service: AuthorPolicyService;
+  let pool: { query: jest.Mock; connect: jest.Mock };
+  let client: { query: jest.Mock; release: jest.Mock };
+  let config: Record<string, string>;
+  let state: {
+    alreadyCounted: boolean;
+    strike?: { strikes: number; cooldown_until: Date; last_strike_at: Date };
+    hourly: number;
+    daily: number;
+  };
+
+  const author: AuthorProfile = {
+    id: 'a1',
+    username: 'alice',
+    createdAt: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
+    followersCount: 500,
+  };
+
+  const strikeUpdate = () =>
+    client.query.mock.calls.find(([sql]) =>
+      sql.includes('INSERT INTO author_strikes'),
+    );
+
+  beforeEach(async () => {
+    state = { alreadyCounted: false, hourly: 0, daily: 0 };
+    client = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('FROM author_requests WHERE tweet_id')) {
+          return { rows: [], rowCount: state.alreadyCounted ? 1 : 0 };
+        }
+        if (sql.includes('FROM author_strikes')) {
+          return { rows: state.strike ? [state.strike] : [] };
+        }
+        if (sql.includes('COUNT(*)')) {
+          return {
+            rows: [
+              { hourly: String(state.hourly), daily: String(state.daily) },
+            ],
+          };
+        }
+        return { rows: [], rowCount: 1 };
+      }),
+      release: jest.fn(),
+    };
+    pool = {
+      query: jest.fn().mockResolvedValue({ rows: [], rowCount: 1 }),
+      connect: jest.fn().mockResolvedValue(client),
+    };
+    config = {
+      AUTHOR_MAX_REQUESTS_PER_HOUR: '2',
+      AUTHOR_MAX_REQUESTS_PER_DAY: '5',
+      AUTHOR_COOLDOWN_BASE_MINUTES: '10',
+      AUTHOR_COOLDOWN_MAX_HOURS: '1',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthorPolicyService,
+        { provide: PG_POOL, useValue: pool },
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<AuthorPolicyService>(AuthorPolicyService);
+  });
+
+  it('allows and counts a request under the limits', async () => {
+    await expect(service.check('t1', author)).resolves.toEqual({
+      allowed: true,
+    });
+
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO author_requests'),
+      ['t1', 'a1'],
+    );
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('does not count the same tweet twice', async () => {
+    state.alreadyCounted = true;
+    state.hourly = 2;
+
+    await expect(service.check('t1', author)).resolves.toEqual({
+      allowed: true,
+    });
+    expect(client.query).not.toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO author_requests'),
+      expect.anything(),
+    );
+  });
+
+  it('rejects over the hourly limit and starts a cooldown', async () => {
+    state.hourly = 2;
+    state.daily = 2;
+
+    const result = await service.check('t1', author);
+
+    expect(result).toEqual(
+      expect.objectContaining({ allowed: false, reason: 'hourly_limit' }),
+    );
+    expect(strikeUpdate()[1]).toEqual(['a1', 1, result.cooldownUntil]);
+    expect(pool.query).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO author_rejections'),
+      ['t1', 'a1', 'alice', 'hourly_limit', result.cooldownUntil],
+    );
+  });
+
+  it('rejects over the daily limit', async () => {
+    state.daily = 5;
+
+    await expect(service.check('t1', author)).resolves.toEqual(
+      expect.objectContaining({ allowed: false, reason: 'daily_limit' }),
+    );
+  });
+
+  it('escalates the cooldown for repeat offenders', async () => {
+    state.strike = {
+      strikes: 2,
+      cooldown_until: new Date(Date.now() + 60_000),
+      last_strike_at: new Date(),
+    };
+
+    const result = await service.check('t1', author);
+
+    expect(result.reason).toBe('cooldown');
+    expect(strikeUpdate()[1][1]).toBe(3);
+  });
+
+  it('starts over once old strikes have expired', async () => {
+    state.strike = {
+      strikes: 4,
+      cooldown_until: new Date(Date.now() - 60_000),
+      last_strike_at: new Date(Date.now() - 48 * 60 * 60 * 1000),
+    };
+    state.hourly = 2;
+
+    await service.check('t1', author);
+
+    expect(strikeUpdate()[1][1]).toBe(1);
+  });
+
+  it('doubles the cooldown per strike up to the cap', () => {
+    expect(service.getCooldownSeconds(1)).toBe(600);
+    expect(service.getCooldownSeconds(2)).toBe(1200);
+    expect(service.getCooldownSeconds(10)).toBe(3600);
+  });
+
+  it('rejects new and small accounts', async () => {
+    config.AUTHOR_MIN_ACCOUNT_AGE_DAYS = '30';
+    config.AUTHOR_MIN_FOLLOWERS = '10';
+
+    await expect(
+      service.check('t1', { ...author, createdAt: new Date().toISOString() }),
+    ).resolves.toEqual({ allowed: false, reason: 'account_too_new' });
+    await expect(
+      service.check('t2', { ...author, followersCount: 3 }),
+    ).resolves.toEqual({ allowed: false, reason: 'too_few_followers' });
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it('applies the allow and deny lists by ID or username', async () => {
+    config.AUTHOR_DENYLIST = '@Alice';
+    await expect(service.check('t1', author)).resolves.toEqual({
+      allowed: false,
+      reason: 'denylisted',
+    });
+
+    config.AUTHOR_ALLOWLIST = 'a1';
+    state.hourly = 100;
+    await expect(service.check('t2', author)).resolves.toEqual({
+      allowed: true,
+    });
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,228 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Pool, PoolClient } from 'pg';
+import { PG_POOL } from '../database/database.constants';
+import {
+  AuthorCheckResult,
+  AuthorProfile,
+  AuthorRejectionReason,
+} from './author-policy.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Per-author limits on token requests, so one account can't use up the
+ * bot's daily budget. Authors who hit a limit are put on a cooldown that
+ * doubles with every further breach until their strikes expire.
+ */
+@Injectable()
+export class AuthorPolicyService {
+  private readonly logger = new Logger(AuthorPolicyService.name);
+
+  constructor(
+    @Inject(PG_POOL) private readonly pool: Pool,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Decides whether `tweetId` may go ahead as a token request. Allowed
+   * requests count towards the author's limits; rejections are recorded.
+   * Checking the same tweet again after it was allowed is a no-op.
+   */
+  async check(
+    tweetId: string,
+    author: AuthorProfile,
+  ): Promise<AuthorCheckResult> {
+    if (this.isListed('AUTHOR_ALLOWLIST', author)) {
+      return { allowed: true };
+    }
+
+    let result: AuthorCheckResult;
+    if (this.isListed('AUTHOR_DENYLIST', author)) {
+      result = { allowed: false, reason: 'denylisted' };
+    } else {
+      const profileReason = this.checkProfile(author);
+      result = profileReason
+        ? { allowed: false, reason: profileReason }
+        : await this.checkLimits(tweetId, author);
+    }
+
+    if (!result.allowed) {
+      await this.recordRejection(tweetId, author, result);
+    }
+    return result;
+  }
+
+  private checkProfile(author: AuthorProfile): AuthorRejectionReason | null {
+    const minAgeDays = parseFloat(
+      this.configService.get('AUTHOR_MIN_ACCOUNT_AGE_DAYS') ?? '0',
+    );
+    if (
+      minAgeDays > 0 &&
+      author.createdAt &&
+      Date.now() - new Date(author.createdAt).getTime() < minAgeDays * DAY_MS
+    ) {
+      return 'account_too_new';
+    }
+
+    const minFollowers = parseInt(
+      this.configService.get('AUTHOR_MIN_FOLLOWERS') ?? '0',
+    );
+    if (
+      minFollowers > 0 &&
+      author.followersCount !== undefined &&
+      author.followersCount < minFollowers
+    ) {
+      return 'too_few_followers';
+    }
+    return null;
+  }
+
+  private async checkLimits(
+    tweetId: string,
+    author: AuthorProfile,
+  ): Promise<AuthorCheckResult> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Serialises checks for one author so parallel jobs can't overshoot
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+        author.id,
+      ]);
+      const result = await this.checkLimitsLocked(client, tweetId, author);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async checkLimitsLocked(
+    client: PoolClient,
+    tweetId: string,
+    author: AuthorProfile,
+  ): Promise<AuthorCheckResult> {
+    const counted = await client.query(
+      'SELECT 1 FROM author_requests WHERE tweet_id = $1',
+      [tweetId],
+    );
+    if (counted.rowCount > 0) {
+      return { allowed: true };
+    }
+
+    const strikeResult = await client.query(
+      'SELECT strikes, cooldown_until, last_strike_at FROM author_strikes WHERE author_id = $1',
+      [author.id],
+    );
+    const strike = strikeResult.rows[0];
+
+    let reason: AuthorRejectionReason | null = null;
+    if (strike && new Date(strike.cooldown_until).getTime() > Date.now()) {
+      reason = 'cooldown';
+    } else {
+      const counts = await client.query(
+        `SELECT COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 hour') AS hourly,
+                COUNT(*) AS daily
+         FROM author_requests
+         WHERE author_id = $1 AND created_at > NOW() - INTERVAL '1 day'`,
+        [author.id],
+      );
+      if (parseInt(counts.rows[0].hourly) >= this.getLimit('HOUR', '5')) {
+        reason = 'hourly_limit';
+      } else if (parseInt(counts.rows[0].daily) >= this.getLimit('DAY', '20')) {
+        reason = 'daily_limit';
+      }
+    }
+
+    if (!reason) {
+      await client.query(
+        'INSERT INTO author_requests (tweet_id, author_id) VALUES ($1, $2)',
+        [tweetId, author.id],
+      );
+      return { allowed: true };
+    }
+
+    const strikeResetHours = parseFloat(
+      this.configService.get('AUTHOR_STRIKE_RESET_HOURS') ?? '24',
+    );
+    const strikes =
+      strike &&
+      Date.now() - new Date(strike.last_strike_at).getTime() <
+        strikeResetHours * HOUR_MS
+        ? strike.strikes + 1
+        : 1;
+    const cooldownUntil = new Date(
+      Date.now() + this.getCooldownSeconds(strikes) * 1000,
+    );
+    await client.query(
+      `INSERT INTO author_strikes (author_id, strikes, cooldown_until)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (author_id) DO UPDATE
+       SET strikes = $2, cooldown_until = $3, last_strike_at = NOW()`,
+      [author.id, strikes, cooldownUntil],
+    );
+    return { allowed: false, reason, cooldownUntil };
+  }
+
+  private async recordRejection(
+    tweetId: string,
+    author: AuthorProfile,
+    result: AuthorCheckResult,
+  ) {
+    this.logger.warn(
+      `🚫 Rejected tweet ${tweetId} from @${author.username} (${result.reason})` +
+        (result.cooldownUntil
+          ? `, cooling down until ${result.cooldownUntil.toISOString()}`
+          : ''),
+    );
+    await this.pool.query(
+      `INSERT INTO author_rejections (tweet_id, author_id, author_username, reason, cooldown_until)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (tweet_id) DO NOTHING`,
+      [
+        tweetId,
+        author.id,
+        author.username,
+        result.reason,
+        result.cooldownUntil,
+      ],
+    );
+  }
+
+  /**
+   * Cooldown after the given number of strikes:
+   * AUTHOR_COOLDOWN_BASE_MINUTES doubled for every strike after the first,
+   * capped at AUTHOR_COOLDOWN_MAX_HOURS.
+   */
+  getCooldownSeconds(strikes: number): number {
+    const baseMinutes = parseFloat(
+      this.configService.get('AUTHOR_COOLDOWN_BASE_MINUTES') ?? '60',
+    );
+    const maxHours = parseFloat(
+      this.configService.get('AUTHOR_COOLDOWN_MAX_HOURS') ?? '168',
+    );
+    return Math.min(baseMinutes * 60 * 2 ** (strikes - 1), maxHours * 3600);
+  }
+
+  private getLimit(period: 'HOUR' | 'DAY', fallback: string): number {
+    return parseInt(
+      this.configService.get(`AUTHOR_MAX_REQUESTS_PER_${period}`) ?? fallback,
+    );
+  }
+
+  // Lists are comma-separated author IDs or @usernames
+  private isListed(key: string, author: AuthorProfile): boolean {
+    const entries = (this.configService.get<string>(key) ?? '')
+      .split(',')
+      .map((entry) => entry.trim().replace(/^@/, '').toLowerCase())
+      .filter(Boolean);
+    return (
+      entries.includes(author.id) ||
+      entries.includes(author.username?.toLowerCase())
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import * as nacl from 'tweetnacl';
+import { decodeUTF8 } from 'tweetnacl-util';
+import { EnvSignerBackend } from '../signer/backends/env-signer.backend';
+import { SignerService } from '../signer/signer.service';
+import {
+  CoinApiSessionService,
+  decodeJwtExpiry,
+} from './coin-api-session.service';
+import { LaunchPlatform } from './launch-platform.interface';
+
+const jwt = (exp?: number) =>
+  [
+    Buffer.from('{"alg":"HS256"}').toString('base64url'),
+    Buffer.from(JSON.stringify({ sub: 'wallet', exp })).toString('base64url'),
+    'signature',
+  ].join('.');
+
+const inMinutes = (minutes: number) =>
+  Math.floor(Date.now() / 1000) + minutes * 60;
+
+describe('CoinApiSessionService', () => {
+  let service: CoinApiSessionService;
+  let pool: { query: jest.Mock };
+  let authenticate: jest.Mock;
+  const keyPair = nacl.sign.keyPair();
+  const wallet = bs58.encode(keyPair.publicKey);
+
+  const signInResponse = (token: string) => ({ token });
+
+  beforeEach(() => {
+    const config: Record<string, string> = {
+      WALLET_PRIVATE_KEY: bs58.encode(keyPair.secretKey),
+    };
+    const configService = {
+      get: (key: string) => config[key],
+    } as ConfigService;
+    pool = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    authenticate = jest.fn();
+    service = new CoinApiSessionService(
+      pool as any,
+      configService,
+      new SignerService(configService, [new EnvSignerBackend(configService)]),
+      {
+        signInMessage: 'Sign in to Cyber',
+        authenticate,
+      } as unknown as LaunchPlatform,
+    );
+  });
+
+  it('reads the expiry from the token', () => {
+    const exp = inMinutes(30);
+    expect(decodeJwtExpiry(jwt(exp))).toEqual(new Date(exp * 1000));
+    expect(decodeJwtExpiry(jwt())).toBeNull();
+    expect(decodeJwtExpiry('opaque-token')).toBeNull();
+  });
+
+  it('signs in with a signature from the wallet and stores the token', async () => {
+    const exp = inMinutes(30);
+    const token = jwt(exp);
+    authenticate.mockResolvedValueOnce(signInResponse(token));
+
+    await expect(service.getToken(wallet)).resolves.toBe(token);
+
+    const { walletAddress, signature, message } = authenticate.mock.calls[0][0];
+    expect(walletAddress).toBe(wallet);
+    expect(
+      nacl.sign.detached.verify(
+        decodeUTF8(message),
+        bs58.decode(signature),
+        keyPair.publicKey,
+      ),
+    ).toBe(true);
+    expect(pool.query).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO coin_api_sessions'),
+      [wallet, token, new Date(exp * 1000)],
+    );
+  });
+
+  it('reuses a cached token and shares one sign-in between callers', async () => {
+    const token = jwt(inMinutes(30));
+    authenticate.mockResolvedValueOnce(signInResponse(token));
+
+    const tokens = await Promise.all([
+      service.getToken(wallet),
+      service.getToken(wallet),
+      service.getToken(wallet),
+    ]);
+    await service.getToken(wallet);
+
+    expect(tokens).toEqual([token, token, token]);
+    expect(authenticate).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses a token another worker stored', async () => {
+    const token = jwt(inMinutes(30));
+    pool.query.mockResolvedValueOnce({
+      rows: [{ token, expires_at: new Date(inMinutes(30) * 1000) }],
+    });
+
+    await expect(service.getToken(wallet)).resolves.toBe(token);
+    expect(authenticate).not.toHaveBeenCalled();
+  });
+
+  it('signs in again shortly before the token expires', async () => {
+    const expiring = jwt(inMinutes(1));
+    const renewed = jwt(inMinutes(30));
+    authenticate
+      .mockResolvedValueOnce(signInResponse(expiring))
+      .mockResolvedValueOnce(signInResponse(renewed));
+
+    await expect(service.getToken(wallet)).resolves.toBe(expiring);
+    await expect(service.getToken(wallet)).resolves.toBe(renewed);
+  });
+
+  it('keeps using a valid token when signing in again fails', async () => {
+    const expiring = jwt(inMinutes(1));
+    authenticate
+      .mockResolvedValueOnce(signInResponse(expiring))
+      .mockRejectedValueOnce(new Error('socket hang up'));
+
+    await service.getToken(wallet);
+
+    await expect(service.getToken(wallet)).resolves.toBe(expiring);
+  });
+
+  it('fails when there is no valid token to fall back on', async () => {
+    authenticate.mockRejectedValueOnce(new Error('socket hang up'));
+
+    await expect(service.getToken(wallet)).rejects.toThrow('socket hang up');
+  });
+
+  it('replaces a refused token unless it was already replaced', async () => {
+    const refused = jwt(inMinutes(30));
+    const renewed = jwt(inMinutes(60));
+    authenticate
+      .mockResolvedValueOnce(signInResponse(refused))
+      .mockResolvedValueOnce(signInResponse(renewed));
+    await service.getToken(wallet);
+
+    await expect(service.renew(wallet, refused)).resolves.toBe(renewed);
+    await expect(service.renew(wallet, refused)).resolves.toBe(renewed);
+
+    expect(authenticate).toHaveBeenCalledTimes(2);
+    expect(pool.query).toHaveBeenCalledWith(
+      expect.stringContaining('DELETE FROM coin_api_sessions'),
+      [wallet, refused],
+    );
+  });
+});
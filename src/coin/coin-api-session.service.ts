@@ -0,0 +1,159 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import { Pool } from 'pg';
+import { decodeUTF8 } from 'tweetnacl-util';
+import { PG_POOL } from '../database/database.constants';
+import { SignerService } from '../signer/signer.service';
+import { LAUNCH_PLATFORM, LaunchPlatform } from './launch-platform.interface';
+
+interface CoinApiSession {
+  token: string;
+  expiresAt: Date;
+}
+
+/** Reads the `exp` claim of a JWT, or null if it has none. */
+export function decodeJwtExpiry(token: string): Date | null {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(token.split('.')[1], 'base64url').toString('utf8'),
+    );
+    return typeof payload.exp === 'number'
+      ? new Date(payload.exp * 1000)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Session tokens for the coin API, one per launch wallet. Tokens are kept
+ * in coin_api_sessions so every worker uses the same one, and renewed
+ * COIN_API_SESSION_REFRESH_MARGIN_MS before they expire. If a renewal
+ * fails while the old token is still valid, the old token is used.
+ */
+@Injectable()
+export class CoinApiSessionService {
+  private readonly logger = new Logger(CoinApiSessionService.name);
+  private readonly sessions = new Map<string, CoinApiSession>();
+  // Sign-ins under way, so concurrent jobs wait for the same one
+  private readonly signIns = new Map<string, Promise<CoinApiSession>>();
+
+  constructor(
+    @Inject(PG_POOL) private readonly pool: Pool,
+    private readonly configService: ConfigService,
+    private readonly signer: SignerService,
+    @Inject(LAUNCH_PLATFORM) private readonly platform: LaunchPlatform,
+  ) {}
+
+  /** A token for the wallet, signing in first if there's none fresh enough. */
+  async getToken(walletAddress: string): Promise<string> {
+    let session = this.sessions.get(walletAddress);
+    if (!session || this.needsRefresh(session)) {
+      const stored = await this.loadStored(walletAddress);
+      if (stored && (!session || stored.expiresAt > session.expiresAt)) {
+        session = stored;
+        this.sessions.set(walletAddress, stored);
+      }
+    }
+    if (session && !this.needsRefresh(session)) {
+      return session.token;
+    }
+
+    try {
+      return (await this.signIn(walletAddress)).token;
+    } catch (error) {
+      if (session && session.expiresAt.getTime() > Date.now()) {
+        this.logger.warn(
+          `Could not renew the coin API session for ${walletAddress}; using the current one until it expires`,
+        );
+        return session.token;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces a token the API turned down. If another job has already
+   * replaced it, that token is returned instead of signing in again.
+   */
+  async renew(walletAddress: string, rejectedToken: string): Promise<string> {
+    const current = this.sessions.get(walletAddress);
+    if (current && current.token !== rejectedToken) {
+      return current.token;
+    }
+    this.sessions.delete(walletAddress);
+    await this.pool.query(
+      'DELETE FROM coin_api_sessions WHERE wallet_address = $1 AND token = $2',
+      [walletAddress, rejectedToken],
+    );
+    return (await this.signIn(walletAddress)).token;
+  }
+
+  private signIn(walletAddress: string): Promise<CoinApiSession> {
+    let signIn = this.signIns.get(walletAddress);
+    if (!signIn) {
+      signIn = this.requestSession(walletAddress).finally(() =>
+        this.signIns.delete(walletAddress),
+      );
+      this.signIns.set(walletAddress, signIn);
+    }
+    return signIn;
+  }
+
+  private async requestSession(walletAddress: string): Promise<CoinApiSession> {
+    const message = this.platform.signInMessage;
+    const signature = bs58.encode(
+      await this.signer.sign(walletAddress, decodeUTF8(message)),
+    );
+    const { token } = await this.platform.authenticate({
+      walletAddress,
+      signature,
+      message,
+    });
+
+    // Tokens without an expiry are trusted for COIN_API_SESSION_TTL_MS
+    const session = {
+      token,
+      expiresAt:
+        decodeJwtExpiry(token) ??
+        new Date(
+          Date.now() +
+            parseInt(
+              this.configService.get('COIN_API_SESSION_TTL_MS') ?? '900000',
+            ),
+        ),
+    };
+    this.sessions.set(walletAddress, session);
+    await this.pool.query(
+      `INSERT INTO coin_api_sessions (wallet_address, token, expires_at)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (wallet_address)
+       DO UPDATE SET token = $2, expires_at = $3, updated_at = NOW()`,
+      [walletAddress, session.token, session.expiresAt],
+    );
+    this.logger.log(
+      `🔐 Signed in to the coin API as ${walletAddress} until ${session.expiresAt.toISOString()}`,
+    );
+    return session;
+  }
+
+  private async loadStored(
+    walletAddress: string,
+  ): Promise<CoinApiSession | null> {
+    const result = await this.pool.query(
+      `SELECT token, expires_at FROM coin_api_sessions
+       WHERE wallet_address = $1 AND expires_at > NOW()`,
+      [walletAddress],
+    );
+    const row = result.rows[0];
+    return row ? { token: row.token, expiresAt: row.expires_at } : null;
+  }
+
+  private needsRefresh(session: CoinApiSession): boolean {
+    const margin = parseInt(
+      this.configService.get('COIN_API_SESSION_REFRESH_MARGIN_MS') ?? '120000',
+    );
+    return session.expiresAt.getTime() - margin <= Date.now();
+  }
+}
@@ -0,0 +1,107 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Pool } from 'pg';
+import { randomUUID } from 'crypto';
+import { PG_POOL } from '../database/database.constants';
+
+export type CoinCreationStatus = 'in_flight' | 'created' | 'failed';
+
+export interface CoinCreationClaim {
+  /**
+   * `fresh`: no earlier attempt, or the last one definitely failed.
+   * `in_flight`: an earlier attempt never recorded its result, so the coin
+   * may or may not exist. `created`: the mint is already known.
+   */
+  state: 'fresh' | 'in_flight' | 'created';
+  idempotencyKey: string;
+  mintAddress?: string;
+}
+
+/**
+ * Write-ahead record of coin creations, keyed by tweet. A create is logged
+ * as in flight before the HTTP call and settled afterwards, so a retried job
+ * never mints a second token for the same tweet.
+ */
+@Injectable()
+export class CoinIdempotencyService {
+  private readonly logger = new Logger(CoinIdempotencyService.name);
+
+  constructor(@Inject(PG_POOL) private readonly pool: Pool) {}
+
+  async begin(tweetId: string): Promise<CoinCreationClaim> {
+    const inserted = await this.pool.query(
+      `INSERT INTO coin_creations (tweet_id, idempotency_key, status)
+       VALUES ($1, $2, 'in_flight')
+       ON CONFLICT (tweet_id) DO NOTHING
+       RETURNING idempotency_key`,
+      [tweetId, randomUUID()],
+    );
+    if (inserted.rows[0]) {
+      return {
+        state: 'fresh',
+        idempotencyKey: inserted.rows[0].idempotency_key,
+      };
+    }
+
+    // A failed attempt is restarted under the same key; anything else is
+    // reported as-is so the caller can decide
+    const result = await this.pool.query(
+      `WITH previous AS (
+         SELECT tweet_id, status FROM coin_creations WHERE tweet_id = $1 FOR UPDATE
+       )
+       UPDATE coin_creations c
+       SET status = CASE WHEN previous.status = 'failed' THEN 'in_flight' ELSE c.status END,
+           attempts = c.attempts + 1
+       FROM previous
+       WHERE c.tweet_id = previous.tweet_id
+       RETURNING previous.status AS previous_status, c.idempotency_key, c.mint_address`,
+      [tweetId],
+    );
+    const row = result.rows[0];
+    if (row.mint_address) {
+      return {
+        state: 'created',
+        idempotencyKey: row.idempotency_key,
+        mintAddress: row.mint_address,
+      };
+    }
+    return {
+      state: row.previous_status === 'failed' ? 'fresh' : 'in_flight',
+      idempotencyKey: row.idempotency_key,
+    };
+  }
+
+  async markCreated(tweetId: string, mintAddress: string): Promise<void> {
+    await this.settle(tweetId, 'created', mintAddress);
+    this.logger.log(`Recorded mint ${mintAddress} for tweet ${tweetId}`);
+  }
+
+  async markFailed(tweetId: string): Promise<void> {
+    await this.settle(tweetId, 'failed');
+  }
+
+  async find(
+    tweetId: string,
+  ): Promise<{ status: CoinCreationStatus; mintAddress?: string } | null> {
+    const result = await this.pool.query(
+      'SELECT status, mint_address FROM coin_creations WHERE tweet_id = $1',
+      [tweetId],
+    );
+    const row = result.rows[0];
+    return row
+      ? { status: row.status, mintAddress: row.mint_address ?? undefined }
+      : null;
+  }
+
+  private async settle(
+    tweetId: string,
+    status: CoinCreationStatus,
+    mintAddress?: string,
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE coin_creations
+       SET status = $2, mint_address = COALESCE($3, mint_address), completed_at = NOW()
+       WHERE tweet_id = $1`,
+      [tweetId, status, mintAddress ?? null],
+    );
+  }
+}
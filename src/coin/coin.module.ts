@@ -0,0 +1,48 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SignerModule } from '../signer/signer.module';
+import { CoinApiSessionService } from './coin-api-session.service';
+import { CoinIdempotencyService } from './coin-idempotency.service';
+import { CoinService } from './coin.service';
+import {
+  LAUNCH_PLATFORM,
+  LAUNCH_PLATFORMS,
+  LaunchPlatform,
+} from './launch-platform.interface';
+import { HeyhalLaunchPlatform } from './platforms/heyhal.platform';
+import { InMemoryLaunchPlatform } from './platforms/in-memory.platform';
+
+const platformClasses = [HeyhalLaunchPlatform, InMemoryLaunchPlatform];
+
+@Module({
+  imports: [SignerModule],
+  providers: [
+    ...platformClasses,
+    {
+      provide: LAUNCH_PLATFORMS,
+      inject: platformClasses,
+      useFactory: (...platforms: LaunchPlatform[]) => platforms,
+    },
+    {
+      // LAUNCH_PLATFORM picks one by name; heyhal unless told otherwise
+      provide: LAUNCH_PLATFORM,
+      inject: [ConfigService, LAUNCH_PLATFORMS],
+      useFactory: (
+        configService: ConfigService,
+        platforms: LaunchPlatform[],
+      ) => {
+        const name = configService.get('LAUNCH_PLATFORM') ?? 'heyhal';
+        const platform = platforms.find((candidate) => candidate.name === name);
+        if (!platform) {
+          throw new Error(`Unknown launch platform "${name}"`);
+        }
+        return platform;
+      },
+    },
+    CoinService,
+    CoinApiSessionService,
+    CoinIdempotencyService,
+  ],
+  exports: [CoinService, CoinIdempotencyService],
+})
+export class CoinModule {}
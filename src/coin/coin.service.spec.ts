@@ -0,0 +1,205 @@
+import { ConfigService } from '@nestjs/config';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { TokenPersona } from '../analysis/token-persona.schema';
+import { EnvSignerBackend } from '../signer/backends/env-signer.backend';
+import { SignerService } from '../signer/signer.service';
+import { CoinApiSessionService } from './coin-api-session.service';
+import { CoinService } from './coin.service';
+import { LaunchPlatformError } from './launch-platform.error';
+import { InMemoryLaunchPlatform } from './platforms/in-memory.platform';
+
+describe('CoinService', () => {
+  let service: CoinService;
+  let platform: InMemoryLaunchPlatform;
+  let authenticate: jest.SpyInstance;
+  let config: Record<string, string>;
+  const wallet = Keypair.generate();
+
+  const createCoin = (symbol = 'PAL', persona?: TokenPersona) =>
+    service.createCoin(
+      'Pal',
+      symbol,
+      { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      'a1',
+      'alice',
+      undefined,
+      `key-${symbol}`,
+      persona,
+    );
+
+  beforeEach(() => {
+    config = {
+      WALLET_PRIVATE_KEY: bs58.encode(wallet.secretKey),
+    };
+    const configService = {
+      get: (key: string) => config[key],
+    } as ConfigService;
+    const signer = new SignerService(configService, [
+      new EnvSignerBackend(configService),
+    ]);
+    platform = new InMemoryLaunchPlatform();
+    authenticate = jest.spyOn(platform, 'authenticate');
+    service = new CoinService(
+      platform,
+      configService,
+      signer,
+      new CoinApiSessionService(
+        { query: jest.fn().mockResolvedValue({ rows: [] }) } as any,
+        configService,
+        signer,
+        platform,
+      ),
+    );
+  });
+
+  it('returns the mint address on success', async () => {
+    const result = await createCoin();
+
+    expect(result).toEqual({
+      success: true,
+      mintAddress: expect.any(String),
+    });
+    expect(platform.coins.get(result.mintAddress)).toMatchObject({
+      name: 'Pal',
+      symbol: 'PAL',
+      creatorTwitterUsername: 'alice',
+      creatorWallet: wallet.publicKey.toBase58(),
+      idempotencyKey: 'key-PAL',
+    });
+  });
+
+  it('signs in once for several coins', async () => {
+    await createCoin('ONE');
+    await createCoin('TWO');
+
+    expect(authenticate).toHaveBeenCalledTimes(1);
+    expect(platform.coins.size).toBe(2);
+  });
+
+  it('signs in again and retries once when the token is refused', async () => {
+    await createCoin('ONE');
+    platform.expireSessions();
+
+    const result = await createCoin('TWO');
+
+    expect(result.success).toBe(true);
+    expect(authenticate).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the new token is refused too', async () => {
+    platform.failNextCreate(new LaunchPlatformError('jwt expired', 401));
+    platform.failNextCreate(new LaunchPlatformError('jwt expired', 401));
+
+    const result = await createCoin();
+
+    expect(result.success).toBe(false);
+    expect(result.outcomeUnknown).toBe(false);
+    expect(result.rejection).toBeUndefined();
+    expect(authenticate).toHaveBeenCalledTimes(2);
+  });
+
+  it('maps a conflict to name_taken', async () => {
+    await createCoin('PAL');
+    const result = await service.createCoin(
+      'Other Pal',
+      'PAL',
+      { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      'a2',
+      'bob',
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.rejection).toEqual({
+      reason: 'name_taken',
+      message: 'Symbol PAL already exists',
+    });
+  });
+
+  it('maps an "already exists" message to name_taken', async () => {
+    platform.failNextCreate(
+      new LaunchPlatformError('Symbol already exists', 400),
+    );
+
+    expect((await createCoin()).rejection).toEqual({
+      reason: 'name_taken',
+      message: 'Symbol already exists',
+    });
+  });
+
+  it('maps other client errors to invalid_request', async () => {
+    platform.failNextCreate(
+      new LaunchPlatformError('Description too long', 422),
+    );
+
+    const result = await createCoin();
+
+    expect(result.rejection).toEqual({
+      reason: 'invalid_request',
+      message: 'Description too long',
+    });
+  });
+
+  it('leaves server errors and rate limits retryable', async () => {
+    platform.failNextCreate(
+      new LaunchPlatformError('Service unavailable', 503),
+    );
+    expect((await createCoin()).rejection).toBeUndefined();
+
+    platform.failNextCreate(new LaunchPlatformError('Too many requests', 429));
+    expect((await createCoin()).rejection).toBeUndefined();
+  });
+
+  it('reports an unknown outcome when no response arrived', async () => {
+    platform.failNextCreate(new LaunchPlatformError('socket hang up'));
+
+    const result = await createCoin();
+
+    expect(result.success).toBe(false);
+    expect(result.outcomeUnknown).toBe(true);
+  });
+
+  it('fills in the persona from the tweet, then the defaults', async () => {
+    config.COIN_PERSONA_WEBSITE = 'example.com';
+
+    const { mintAddress } = await createCoin('PAL', {
+      personality: 'sarcastic pirate',
+      telegram: 't.me/piratecoin',
+    });
+
+    expect(platform.coins.get(mintAddress).persona).toEqual({
+      personality: 'sarcastic pirate',
+      instructions: 'Respond politely to all queries about the token',
+      knowledge: 'Basic cryptocurrency knowledge',
+      twitter: '',
+      telegram: 'https://t.me/piratecoin',
+      website: 'https://example.com/',
+    });
+  });
+
+  it('uses the defaults for persona fields that fail validation', async () => {
+    const { mintAddress } = await createCoin('PAL', {
+      personality: 'x'.repeat(500),
+      website: 'javascript:alert(1)',
+    });
+
+    expect(platform.coins.get(mintAddress).persona).toMatchObject({
+      personality: 'Friendly and helpful',
+      website: '',
+    });
+  });
+
+  it('refuses to start with an invalid persona default', () => {
+    config.COIN_PERSONA_TWITTER = 'not a handle!';
+
+    expect(() => service.onModuleInit()).toThrow(
+      'COIN_PERSONA_TWITTER must be a Twitter handle',
+    );
+  });
+
+  it('links the token page from the platform', () => {
+    expect(service.getTokenUrl('Mint1')).toBe(
+      'https://launchpad.invalid/token/Mint1',
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  TOKEN_PERSONA_FIELDS,
+  TokenPersona,
+  TokenPersonaField,
+  validateTokenPersona,
+} from '../analysis/token-persona.schema';
+import { SignerService } from '../signer/signer.service';
+import { CoinApiSessionService } from './coin-api-session.service';
+import { LaunchPlatformError } from './launch-platform.error';
+import {
+  CoinImage,
+  CoinPersona,
+  CreateCoinRequest,
+  CreateCoinResponse,
+  LAUNCH_PLATFORM,
+  LaunchPlatform,
+} from './launch-platform.interface';
+
+export interface CreateCoinResult {
+  success: boolean;
+  mintAddress?: string;
+  // Set when the create request went out but no response came back, so
+  // the coin may exist even though the call failed
+  outcomeUnknown?: boolean;
+  // Set when the API turned the request down; sending it again won't help
+  rejection?: CoinRejection;
+}
+
+export interface CoinRejection {
+  reason: 'name_taken' | 'invalid_request';
+  message: string;
+}
+
+// Client errors that say nothing about the request itself
+const RETRYABLE_CLIENT_STATUSES = [401, 403, 408, 429];
+
+// Used for persona fields that neither the tweet nor COIN_PERSONA_* sets
+const PERSONA_DEFAULTS: Partial<Record<TokenPersonaField, string>> = {
+  personality: 'Friendly and helpful',
+  instructions: 'Respond politely to all queries about the token',
+  knowledge: 'Basic cryptocurrency knowledge',
+};
+
+@Injectable()
+export class CoinService implements OnModuleInit {
+  private readonly logger = new Logger(CoinService.name);
+
+  constructor(
+    @Inject(LAUNCH_PLATFORM) private readonly platform: LaunchPlatform,
+    private readonly configService: ConfigService,
+    private readonly signer: SignerService,
+    private readonly session: CoinApiSessionService,
+  ) {}
+
+  /** Fails startup on a persona default that wouldn't pass validation. */
+  onModuleInit(): void {
+    this.getPersonaDefaults();
+  }
+
+  async createCoin(
+    name: string,
+    symbol: string,
+    image: CoinImage,
+    tweetAuthorId: string,
+    tweetAuthorUsername: string,
+    description?: string,
+    idempotencyKey?: string,
+    persona?: TokenPersona,
+  ): Promise<CreateCoinResult> {
+    let createRequested = false;
+    try {
+      // A launch that is retried signs in with the wallet it first used
+      const walletAddress = await this.signer.pickWallet(idempotencyKey);
+      let token = await this.session.getToken(walletAddress);
+
+      const request: CreateCoinRequest = {
+        name,
+        symbol,
+        description: description || '',
+        image,
+        creatorTwitterUserId: tweetAuthorId,
+        creatorTwitterUsername: tweetAuthorUsername,
+        persona: this.resolvePersona(persona),
+        idempotencyKey: this.supportsIdempotencyKeys()
+          ? idempotencyKey
+          : undefined,
+      };
+
+      this.logger.log(
+        `Attempting to create coin on ${this.platform.name} with the following details:`,
+      );
+      this.logger.log(`Name: ${name}`);
+      this.logger.log(`Symbol: ${symbol}`);
+      this.logger.log(`JWT Token: ${token.substring(0, 10)}...`);
+      this.logger.log(`Wallet: ${walletAddress}`);
+      if (request.idempotencyKey) {
+        this.logger.log(`Idempotency Key: ${request.idempotencyKey}`);
+      }
+
+      createRequested = true;
+      let response: CreateCoinResponse;
+      try {
+        response = await this.platform.createCoin(token, request);
+      } catch (error) {
+        if (!(error instanceof LaunchPlatformError) || error.status !== 401) {
+          throw error;
+        }
+        // A refused token means the create was never processed, so it's
+        // safe to send once more with a new one
+        this.logger.warn(
+          'Coin API refused the session token; signing in again',
+        );
+        createRequested = false;
+        token = await this.session.renew(walletAddress, token);
+        createRequested = true;
+        response = await this.platform.createCoin(token, request);
+      }
+
+      return { success: true, mintAddress: response.mintAddress };
+    } catch (error) {
+      this.logger.error(`Error creating coin: ${error.message}`);
+      return {
+        success: false,
+        outcomeUnknown:
+          createRequested &&
+          !(error instanceof LaunchPlatformError && error.status),
+        rejection: createRequested ? this.toRejection(error) : undefined,
+      };
+    }
+  }
+
+  /**
+   * Fills in the persona fields the tweet didn't give from the defaults.
+   * The tweet's fields are checked again here, since they may have been
+   * stored before a validation rule changed.
+   */
+  private resolvePersona(persona: TokenPersona = {}): CoinPersona {
+    const fromTweet = validateTokenPersona(persona);
+    if (fromTweet.violations.length > 0) {
+      this.logger.warn(
+        `Using defaults for invalid persona fields: ${fromTweet.violations
+          .map((v) => `${v.field} ${v.message}`)
+          .join('; ')}`,
+      );
+    }
+    const merged = { ...this.getPersonaDefaults(), ...fromTweet.value };
+    return Object.fromEntries(
+      TOKEN_PERSONA_FIELDS.map((field) => [field, merged[field] ?? '']),
+    ) as CoinPersona;
+  }
+
+  /** Persona defaults, from COIN_PERSONA_PERSONALITY and so on. */
+  private getPersonaDefaults(): TokenPersona {
+    const configured = Object.fromEntries(
+      TOKEN_PERSONA_FIELDS.map((field) => [
+        field,
+        this.configService.get(`COIN_PERSONA_${field.toUpperCase()}`) ??
+          PERSONA_DEFAULTS[field],
+      ]),
+    );
+    const validation = validateTokenPersona(configured);
+    if (validation.violations.length > 0) {
+      throw new Error(
+        `Invalid persona defaults: ${validation.violations
+          .map((v) => `COIN_PERSONA_${v.field.toUpperCase()} ${v.message}`)
+          .join('; ')}`,
+      );
+    }
+    return validation.value;
+  }
+
+  /** The platform's page for a coin, linked in the success reply. */
+  getTokenUrl(mintAddress: string): string {
+    return this.platform.buildTokenUrl(mintAddress);
+  }
+
+  /** Maps a client error from the create call to why the coin was refused. */
+  private toRejection(error: unknown): CoinRejection | undefined {
+    if (!(error instanceof LaunchPlatformError) || !error.status) {
+      return undefined;
+    }
+    const { status, message } = error;
+    if (
+      status < 400 ||
+      status >= 500 ||
+      RETRYABLE_CLIENT_STATUSES.includes(status)
+    ) {
+      return undefined;
+    }
+
+    const nameTaken =
+      status === 409 ||
+      /already (exists|taken|in use)|is taken|duplicate/i.test(message);
+    return { reason: nameTaken ? 'name_taken' : 'invalid_request', message };
+  }
+
+  /**
+   * Whether the coin API deduplicates creates by `Idempotency-Key`. When it
+   * does, a create whose outcome is unknown can safely be sent again.
+   */
+  supportsIdempotencyKeys(): boolean {
+    return this.platform.supportsIdempotencyKeys();
+  }
+}
@@ -0,0 +1,10 @@
+export class LaunchPlatformError extends Error {
+  constructor(
+    message: string,
+    // HTTP status of the error response; undefined if none arrived
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = LaunchPlatformError.name;
+  }
+}
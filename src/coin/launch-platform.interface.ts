@@ -0,0 +1,68 @@
+import { TokenPersonaField } from '../analysis/token-persona.schema';
+
+export interface CoinImage {
+  buffer: Buffer;
+  mimeType: string;
+}
+
+// Every persona field, validated; socials not given are empty strings
+export type CoinPersona = Record<TokenPersonaField, string>;
+
+export interface AuthenticateRequest {
+  walletAddress: string;
+  // Base58 signature of `message` by the wallet
+  signature: string;
+  message: string;
+}
+
+export interface AuthenticateResponse {
+  // Bearer token for the other calls; usually a JWT with an expiry
+  token: string;
+}
+
+export interface CreateCoinRequest {
+  name: string;
+  symbol: string;
+  description: string;
+  image: CoinImage;
+  creatorTwitterUserId: string;
+  creatorTwitterUsername: string;
+  persona: CoinPersona;
+  // Only set when the platform supports idempotency keys
+  idempotencyKey?: string;
+}
+
+export interface CreateCoinResponse {
+  mintAddress: string;
+}
+
+export type CoinStatus = 'pending' | 'live' | 'failed' | 'not_found';
+
+export interface CoinStatusResponse {
+  mintAddress: string;
+  status: CoinStatus;
+}
+
+/**
+ * A launchpad that creates coins for the bot. Calls that get an error
+ * response throw LaunchPlatformError; one without a status means no
+ * response arrived.
+ */
+export interface LaunchPlatform {
+  readonly name: string;
+  // What a wallet signs to authenticate
+  readonly signInMessage: string;
+  authenticate(request: AuthenticateRequest): Promise<AuthenticateResponse>;
+  createCoin(
+    token: string,
+    request: CreateCoinRequest,
+  ): Promise<CreateCoinResponse>;
+  getCoinStatus(mintAddress: string): Promise<CoinStatusResponse>;
+  buildTokenUrl(mintAddress: string): string;
+  // Whether creates are deduplicated by idempotency key, which makes a
+  // create with an unknown outcome safe to send again
+  supportsIdempotencyKeys(): boolean;
+}
+
+export const LAUNCH_PLATFORMS = 'LAUNCH_PLATFORMS';
+export const LAUNCH_PLATFORM = 'LAUNCH_PLATFORM';
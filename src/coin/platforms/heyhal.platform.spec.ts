@@ -0,0 +1,137 @@
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { LaunchPlatformError } from '../launch-platform.error';
+import { HeyhalLaunchPlatform } from './heyhal.platform';
+
+describe('HeyhalLaunchPlatform', () => {
+  let platform: HeyhalLaunchPlatform;
+  let config: Record<string, string>;
+  let post: jest.SpyInstance;
+  let get: jest.SpyInstance;
+
+  const apiError = (status: number, data: unknown) =>
+    new AxiosError('Request failed', 'ERR_BAD_REQUEST', undefined, null, {
+      status,
+      data,
+    } as AxiosResponse);
+
+  const createRequest = {
+    name: 'Pal',
+    symbol: 'PAL',
+    description: '',
+    image: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+    creatorTwitterUserId: 'a1',
+    creatorTwitterUsername: 'alice',
+    persona: {
+      personality: 'sarcastic pirate',
+      instructions: 'Talk like a pirate',
+      knowledge: '',
+      twitter: 'https://x.com/piratecoin',
+      telegram: '',
+      website: '',
+    },
+  };
+
+  beforeEach(() => {
+    config = {};
+    platform = new HeyhalLaunchPlatform({
+      get: (key: string) => config[key],
+    } as ConfigService);
+    post = jest.spyOn(axios, 'post');
+    get = jest.spyOn(axios, 'get');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('uses the configured base URL and vanity prefix', async () => {
+    config.COIN_API_BASE_URL = 'https://staging.example.com/v1/';
+    config.COIN_API_VANITY_PREFIX = 'PAL';
+    post.mockResolvedValueOnce({ data: { mintAddress: 'MintPAL' } });
+
+    await expect(
+      platform.createCoin('jwt', { ...createRequest, idempotencyKey: 'k1' }),
+    ).resolves.toEqual({ mintAddress: 'MintPAL' });
+
+    const [url, form, options] = post.mock.calls[0];
+    expect(url).toBe('https://staging.example.com/v1/coin/create');
+    const body = form.getBuffer().toString();
+    expect(body).toMatch(/name="vanityAddress"\r\n\r\nPAL\r\n/);
+    expect(body).toMatch(/name="personality"\r\n\r\nsarcastic pirate\r\n/);
+    expect(body).toMatch(/name="instruction"\r\n\r\nTalk like a pirate\r\n/);
+    expect(body).toMatch(
+      /name="twitter"\r\n\r\nhttps:\/\/x.com\/piratecoin\r\n/,
+    );
+    expect(options.headers).toMatchObject({
+      Authorization: 'Bearer jwt',
+      'Idempotency-Key': 'k1',
+    });
+  });
+
+  it('defaults to heyhal', async () => {
+    post.mockResolvedValueOnce({ data: { token: 'jwt' } });
+
+    await platform.authenticate({
+      walletAddress: 'w',
+      signature: 's',
+      message: platform.signInMessage,
+    });
+
+    expect(post.mock.calls[0][0]).toBe(
+      'https://api.heyhal.xyz/v1/auth/verify-signature',
+    );
+    expect(platform.buildTokenUrl('Mint1')).toBe(
+      'https://heyhal.xyz/token/Mint1',
+    );
+  });
+
+  it('decodes an error message sent as a byte array', async () => {
+    post.mockRejectedValueOnce(
+      apiError(400, {
+        data: [
+          ...Buffer.from(JSON.stringify({ message: 'Symbol already exists' })),
+        ],
+      }),
+    );
+
+    const error = await platform
+      .createCoin('jwt', createRequest)
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(LaunchPlatformError);
+    expect(error).toMatchObject({
+      message: 'Symbol already exists',
+      status: 400,
+    });
+  });
+
+  it('leaves the status unset when no response arrived', async () => {
+    post.mockRejectedValueOnce(new AxiosError('socket hang up'));
+
+    const error = await platform
+      .createCoin('jwt', createRequest)
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(LaunchPlatformError);
+    expect(error.status).toBeUndefined();
+  });
+
+  it('reports the status of a coin', async () => {
+    get
+      .mockResolvedValueOnce({ data: { status: 'pending' } })
+      .mockResolvedValueOnce({ data: { mintAddress: 'Mint1' } })
+      .mockRejectedValueOnce(apiError(404, { message: 'Not found' }));
+
+    await expect(platform.getCoinStatus('Mint1')).resolves.toEqual({
+      mintAddress: 'Mint1',
+      status: 'pending',
+    });
+    await expect(platform.getCoinStatus('Mint1')).resolves.toMatchObject({
+      status: 'live',
+    });
+    await expect(platform.getCoinStatus('Mint1')).resolves.toMatchObject({
+      status: 'not_found',
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { LaunchPlatformError } from '../launch-platform.error';
+import {
+  AuthenticateRequest,
+  AuthenticateResponse,
+  CoinStatus,
+  CoinStatusResponse,
+  CreateCoinRequest,
+  CreateCoinResponse,
+  LaunchPlatform,
+} from '../launch-platform.interface';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+import FormData = require('form-data');
+
+const KNOWN_STATUSES: CoinStatus[] = ['pending', 'live', 'failed'];
+
+/**
+ * The heyhal launchpad. COIN_API_BASE_URL, COIN_API_TOKEN_PAGE_URL and
+ * COIN_API_VANITY_PREFIX point it elsewhere, e.g. at a staging deployment.
+ */
+@Injectable()
+export class HeyhalLaunchPlatform implements LaunchPlatform {
+  readonly name = 'heyhal';
+  readonly signInMessage = 'Sign in to Cyber';
+  private readonly logger = new Logger(HeyhalLaunchPlatform.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async authenticate(
+    request: AuthenticateRequest,
+  ): Promise<AuthenticateResponse> {
+    const response = await this.call(() =>
+      axios.post(`${this.getBaseUrl()}/auth/verify-signature`, request),
+    );
+    if (typeof response.data?.token !== 'string') {
+      throw new LaunchPlatformError('Sign-in response had no token');
+    }
+    return { token: response.data.token };
+  }
+
+  async createCoin(
+    token: string,
+    request: CreateCoinRequest,
+  ): Promise<CreateCoinResponse> {
+    const formData = new FormData();
+    formData.append('image', request.image.buffer, {
+      filename: `token_image.${request.image.mimeType.split('/')[1]}`,
+      contentType: request.image.mimeType,
+    });
+
+    // Ensure name and symbol are within database limits
+    formData.append('name', request.name.slice(0, 64));
+    formData.append('symbol', request.symbol.slice(0, 10));
+    formData.append('description', request.description);
+    formData.append('personality', request.persona.personality);
+    formData.append('instruction', request.persona.instructions);
+    formData.append('knowledge', request.persona.knowledge);
+    formData.append('twitter', request.persona.twitter);
+    formData.append('telegram', request.persona.telegram);
+    formData.append('website', request.persona.website);
+    formData.append('creatorTwitterUserId', request.creatorTwitterUserId);
+    formData.append('creatorTwitterUsername', request.creatorTwitterUsername);
+    formData.append('vanityAddress', this.getVanityPrefix());
+
+    const response = await this.call(() =>
+      axios.post(`${this.getBaseUrl()}/coin/create`, formData, {
+        headers: {
+          ...formData.getHeaders(),
+          Authorization: `Bearer ${token}`,
+          ...(request.idempotencyKey
+            ? { 'Idempotency-Key': request.idempotencyKey }
+            : {}),
+        },
+      }),
+    );
+    this.logger.log(
+      `Coin created successfully: ${JSON.stringify(response.data)}`,
+    );
+    if (typeof response.data?.mintAddress !== 'string') {
+      // The coin may well exist, so this counts as no usable response
+      throw new LaunchPlatformError('Create response had no mint address');
+    }
+    return { mintAddress: response.data.mintAddress };
+  }
+
+  async getCoinStatus(mintAddress: string): Promise<CoinStatusResponse> {
+    try {
+      const response = await this.call(() =>
+        axios.get(`${this.getBaseUrl()}/coin/${mintAddress}`),
+      );
+      const status = response.data?.status;
+      // A coin the API returns without a status is taken to be live
+      return {
+        mintAddress,
+        status: KNOWN_STATUSES.includes(status) ? status : 'live',
+      };
+    } catch (error) {
+      if (error instanceof LaunchPlatformError && error.status === 404) {
+        return { mintAddress, status: 'not_found' };
+      }
+      throw error;
+    }
+  }
+
+  buildTokenUrl(mintAddress: string): string {
+    const pageUrl =
+      this.configService.get<string>('COIN_API_TOKEN_PAGE_URL') ??
+      'https://heyhal.xyz/token';
+    return `${pageUrl.replace(/\/+$/, '')}/${mintAddress}`;
+  }
+
+  supportsIdempotencyKeys(): boolean {
+    return this.configService.get('COIN_API_IDEMPOTENCY_KEYS') === 'true';
+  }
+
+  /**
+   * Makes the request, turning axios errors into LaunchPlatformError. The
+   * API sometimes puts its message in a byte array under `data`, so that
+   * is decoded first.
+   */
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+      if (!error.response) {
+        throw new LaunchPlatformError(error.message);
+      }
+
+      const { status, data } = error.response;
+      let message: string = data?.message || data?.error || error.message;
+      if (data?.data) {
+        const decoded = Buffer.from(data.data).toString('utf-8');
+        try {
+          const parsed = JSON.parse(decoded);
+          message = parsed.message || parsed.error || decoded;
+        } catch {
+          message = decoded;
+        }
+      }
+      this.logger.error('API Error:', { status, message });
+      throw new LaunchPlatformError(message, status);
+    }
+  }
+
+  private getBaseUrl(): string {
+    return (
+      this.configService.get<string>('COIN_API_BASE_URL') ??
+      'https://api.heyhal.xyz/v1'
+    ).replace(/\/+$/, '');
+  }
+
+  private getVanityPrefix(): string {
+    return this.configService.get('COIN_API_VANITY_PREFIX') ?? 'HAL';
+  }
+}
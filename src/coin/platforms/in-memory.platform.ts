@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common';
+import bs58 from 'bs58';
+import { randomBytes } from 'crypto';
+import * as nacl from 'tweetnacl';
+import { decodeUTF8 } from 'tweetnacl-util';
+import { LaunchPlatformError } from '../launch-platform.error';
+import {
+  AuthenticateRequest,
+  AuthenticateResponse,
+  CoinStatusResponse,
+  CreateCoinRequest,
+  CreateCoinResponse,
+  LaunchPlatform,
+} from '../launch-platform.interface';
+
+const SESSION_TTL_SECONDS = 3600;
+
+export interface InMemoryCoin extends CreateCoinRequest {
+  mintAddress: string;
+  creatorWallet: string;
+}
+
+/**
+ * A launchpad that keeps coins in memory, for tests and dry runs. It checks
+ * sign-in signatures, refuses duplicate symbols and deduplicates creates by
+ * idempotency key like a real one would, and can be told to fail a call.
+ */
+@Injectable()
+export class InMemoryLaunchPlatform implements LaunchPlatform {
+  readonly name = 'in-memory';
+  readonly signInMessage = 'Sign in to the in-memory launchpad';
+  readonly coins = new Map<string, InMemoryCoin>();
+  private readonly sessions = new Map<string, string>();
+  private readonly failures: LaunchPlatformError[] = [];
+
+  /** Makes the next create fail with the given error. */
+  failNextCreate(error: LaunchPlatformError): void {
+    this.failures.push(error);
+  }
+
+  /** Invalidates every session, as if they had all expired. */
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  async authenticate(
+    request: AuthenticateRequest,
+  ): Promise<AuthenticateResponse> {
+    const valid =
+      request.message === this.signInMessage &&
+      nacl.sign.detached.verify(
+        decodeUTF8(request.message),
+        bs58.decode(request.signature),
+        bs58.decode(request.walletAddress),
+      );
+    if (!valid) {
+      throw new LaunchPlatformError('Invalid signature', 401);
+    }
+
+    const payload = {
+      sub: request.walletAddress,
+      exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+      jti: randomBytes(8).toString('hex'),
+    };
+    const token = [
+      Buffer.from('{"alg":"none"}').toString('base64url'),
+      Buffer.from(JSON.stringify(payload)).toString('base64url'),
+      '',
+    ].join('.');
+    this.sessions.set(token, request.walletAddress);
+    return { token };
+  }
+
+  async createCoin(
+    token: string,
+    request: CreateCoinRequest,
+  ): Promise<CreateCoinResponse> {
+    const creatorWallet = this.sessions.get(token);
+    if (!creatorWallet) {
+      throw new LaunchPlatformError('Invalid or expired token', 401);
+    }
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    const coins = [...this.coins.values()];
+    const earlier =
+      request.idempotencyKey &&
+      coins.find((coin) => coin.idempotencyKey === request.idempotencyKey);
+    if (earlier) {
+      return { mintAddress: earlier.mintAddress };
+    }
+    if (coins.some((coin) => coin.symbol === request.symbol)) {
+      throw new LaunchPlatformError(
+        `Symbol ${request.symbol} already exists`,
+        409,
+      );
+    }
+
+    const mintAddress = bs58.encode(randomBytes(32));
+    this.coins.set(mintAddress, { ...request, mintAddress, creatorWallet });
+    return { mintAddress };
+  }
+
+  async getCoinStatus(mintAddress: string): Promise<CoinStatusResponse> {
+    return {
+      mintAddress,
+      status: this.coins.has(mintAddress) ? 'live' : 'not_found',
+    };
+  }
+
+  buildTokenUrl(mintAddress: string): string {
+    return `https://launchpad.invalid/token/${mintAddress}`;
+  }
+
+  supportsIdempotencyKeys(): boolean {
+    return true;
+  }
+}
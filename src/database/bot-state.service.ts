@@ -0,0 +1,32 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { Pool } from 'pg';
+import { PG_POOL } from './database.constants';
+
+/**
+ * Small key/value store for runtime state that must survive restarts,
+ * such as the mention polling cursor.
+ */
+@Injectable()
+export class BotStateService {
+  constructor(@Inject(PG_POOL) private readonly pool: Pool) {}
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.pool.query(
+      'SELECT value FROM bot_state WHERE key = $1',
+      [key],
+    );
+    return result.rows[0]?.value ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO bot_state (key, value) VALUES ($1, $2)
+       ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW()`,
+      [key, value],
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.pool.query('DELETE FROM bot_state WHERE key = $1', [key]);
+  }
+}
@@ -0,0 +1,31 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Pool } from 'pg';
+import { PG_POOL } from './database.constants';
+import { BotStateService } from './bot-state.service';
+import { MigrationService } from './migration.service';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: PG_POOL,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        new Pool({
+          host: configService.get('DB_HOST'),
+          database: configService.get('DB_NAME'),
+          user: configService.get('DB_USERNAME'),
+          password: configService.get('DB_PASSWORD'),
+          port: parseInt(configService.get('DB_PORT')),
+          ssl: {
+            rejectUnauthorized: false, // This allows connecting without SSL verification
+          },
+        }),
+    },
+    MigrationService,
+    BotStateService,
+  ],
+  exports: [PG_POOL, BotStateService],
+})
+export class DatabaseModule {}
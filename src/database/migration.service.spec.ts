@@ -0,0 +1,65 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MigrationService } from './migration.service';
+import { PG_POOL } from './database.constants';
+import { Migration } from './migrations';
+
+describe('MigrationService', () => {
+  let service: MigrationService;
+  let client: { query: jest.Mock; release: jest.Mock };
+
+  const migration = (version: number): Migration => ({
+    version,
+    name: `m${version}`,
+    up: `-- migration ${version}`,
+  });
+
+  beforeEach(async () => {
+    client = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.startsWith('SELECT version FROM schema_migrations')) {
+          return { rows: [{ version: 1 }] };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MigrationService,
+        { provide: PG_POOL, useValue: { connect: async () => client } },
+      ],
+    }).compile();
+
+    service = module.get<MigrationService>(MigrationService);
+  });
+
+  it('applies only pending migrations, in version order', async () => {
+    const applied = await service.migrate([
+      migration(3),
+      migration(1),
+      migration(2),
+    ]);
+
+    expect(applied).toEqual([2, 3]);
+    const statements = client.query.mock.calls.map(([sql]) => sql);
+    expect(statements).not.toContain('-- migration 1');
+    expect(statements.indexOf('-- migration 2')).toBeLessThan(
+      statements.indexOf('-- migration 3'),
+    );
+    expect(client.release).toHaveBeenCalled();
+  });
+
+  it('rolls back and rethrows when a migration fails', async () => {
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql === '-- migration 2') {
+        throw new Error('boom');
+      }
+      return { rows: [] };
+    });
+
+    await expect(service.migrate([migration(2)])).rejects.toThrow('boom');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { Pool } from 'pg';
+import { PG_POOL } from './database.constants';
+import { Migration, migrations } from './migrations';
+
+// Arbitrary key shared by every replica so only one of them migrates at a time
+const MIGRATION_LOCK_KEY = 7214001;
+
+@Injectable()
+export class MigrationService implements OnModuleInit {
+  private readonly logger = new Logger(MigrationService.name);
+
+  constructor(@Inject(PG_POOL) private readonly pool: Pool) {}
+
+  async onModuleInit() {
+    await this.migrate(migrations);
+  }
+
+  async migrate(pending: Migration[]): Promise<number[]> {
+    const client = await this.pool.connect();
+    const applied: number[] = [];
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name VARCHAR(255) NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      const result = await client.query(
+        'SELECT version FROM schema_migrations',
+      );
+      const done = new Set<number>(result.rows.map((row) => row.version));
+
+      for (const migration of [...pending].sort(
+        (a, b) => a.version - b.version,
+      )) {
+        if (done.has(migration.version)) {
+          continue;
+        }
+        try {
+          await client.query('BEGIN');
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+            [migration.version, migration.name],
+          );
+          await client.query('COMMIT');
+        } catch (error) {
+          await client.query('ROLLBACK');
+          this.logger.error(
+            `Migration ${migration.version} (${migration.name}) failed:`,
+            error,
+          );
+          throw error;
+        }
+        applied.push(migration.version);
+        this.logger.log(
+          `Applied migration ${migration.version} (${migration.name})`,
+        );
+      }
+
+      if (applied.length === 0) {
+        this.logger.log('Database schema is up to date');
+      }
+      return applied;
+    } finally {
+      await client
+        .query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY])
+        .catch(() => undefined);
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { Migration } from './migration.interface';
+
+// Baseline: the table TwitterService used to create on startup. Existing
+// deployments already have it, fresh databases get it here so 0002 can
+// migrate from it unconditionally.
+export const createProcessedTweets: Migration = {
+  version: 1,
+  name: 'create-processed-tweets',
+  up: `
+    CREATE TABLE IF NOT EXISTS processed_tweets (
+      tweet_id VARCHAR(255) PRIMARY KEY,
+      processed_at TIMESTAMP WITHOUT TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+};
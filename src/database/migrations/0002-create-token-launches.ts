@@ -0,0 +1,33 @@
+import { Migration } from './migration.interface';
+
+export const createTokenLaunches: Migration = {
+  version: 2,
+  name: 'create-token-launches',
+  up: `
+    CREATE TABLE token_launches (
+      tweet_id VARCHAR(255) PRIMARY KEY,
+      author_id VARCHAR(255),
+      author_username VARCHAR(255),
+      token_name VARCHAR(64),
+      token_symbol VARCHAR(10),
+      token_description TEXT,
+      image_url TEXT,
+      mint_address VARCHAR(64),
+      reply_tweet_id VARCHAR(255),
+      outcome VARCHAR(32)
+        CHECK (outcome IN ('created', 'missing_image', 'not_a_request', 'api_failure')),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      processed_at TIMESTAMPTZ
+    );
+
+    CREATE INDEX token_launches_author_id_idx ON token_launches (author_id);
+    CREATE INDEX token_launches_created_at_idx ON token_launches (created_at DESC);
+
+    INSERT INTO token_launches (tweet_id, created_at, updated_at, processed_at)
+    SELECT tweet_id, processed_at, processed_at, processed_at
+    FROM processed_tweets;
+
+    DROP TABLE processed_tweets;
+  `,
+};
@@ -0,0 +1,13 @@
+import { Migration } from './migration.interface';
+
+export const createBotState: Migration = {
+  version: 3,
+  name: 'create-bot-state',
+  up: `
+    CREATE TABLE bot_state (
+      key VARCHAR(255) PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `,
+};
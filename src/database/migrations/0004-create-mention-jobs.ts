@@ -0,0 +1,23 @@
+import { Migration } from './migration.interface';
+
+export const createMentionJobs: Migration = {
+  version: 4,
+  name: 'create-mention-jobs',
+  up: `
+    CREATE TABLE mention_jobs (
+      tweet_id VARCHAR(255) PRIMARY KEY,
+      stage VARCHAR(32) NOT NULL DEFAULT 'ingested',
+      status VARCHAR(32) NOT NULL DEFAULT 'pending',
+      payload JSONB NOT NULL DEFAULT '{}',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      locked_at TIMESTAMPTZ,
+      locked_by VARCHAR(255),
+      last_error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX mention_jobs_claim_idx ON mention_jobs (status, next_attempt_at);
+  `,
+};
@@ -0,0 +1,18 @@
+import { Migration } from './migration.interface';
+
+export const createCoinCreations: Migration = {
+  version: 5,
+  name: 'create-coin-creations',
+  up: `
+    CREATE TABLE coin_creations (
+      tweet_id VARCHAR(255) PRIMARY KEY,
+      idempotency_key UUID NOT NULL,
+      status VARCHAR(32) NOT NULL
+        CHECK (status IN ('in_flight', 'created', 'failed')),
+      mint_address VARCHAR(64),
+      attempts INTEGER NOT NULL DEFAULT 1,
+      started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMPTZ
+    )
+  `,
+};
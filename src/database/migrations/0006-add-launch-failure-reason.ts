@@ -0,0 +1,13 @@
+import { Migration } from './migration.interface';
+
+export const addLaunchFailureReason: Migration = {
+  version: 6,
+  name: 'add-launch-failure-reason',
+  up: `
+    ALTER TABLE token_launches
+      ADD COLUMN failure_reason VARCHAR(32),
+      DROP CONSTRAINT token_launches_outcome_check,
+      ADD CONSTRAINT token_launches_outcome_check
+        CHECK (outcome IN ('created', 'missing_image', 'not_a_request', 'api_failure', 'failed'))
+  `,
+};
@@ -0,0 +1,39 @@
+import { Migration } from './migration.interface';
+
+export const createAuthorLimits: Migration = {
+  version: 7,
+  name: 'create-author-limits',
+  up: `
+    CREATE TABLE author_requests (
+      tweet_id VARCHAR(255) PRIMARY KEY,
+      author_id VARCHAR(255) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX author_requests_author_created_idx
+      ON author_requests (author_id, created_at DESC);
+
+    CREATE TABLE author_rejections (
+      tweet_id VARCHAR(255) PRIMARY KEY,
+      author_id VARCHAR(255) NOT NULL,
+      author_username VARCHAR(255),
+      reason VARCHAR(32) NOT NULL,
+      cooldown_until TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    CREATE INDEX author_rejections_author_id_idx ON author_rejections (author_id);
+
+    CREATE TABLE author_strikes (
+      author_id VARCHAR(255) PRIMARY KEY,
+      strikes INTEGER NOT NULL,
+      cooldown_until TIMESTAMPTZ NOT NULL,
+      last_strike_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+
+    ALTER TABLE token_launches
+      DROP CONSTRAINT token_launches_outcome_check,
+      ADD CONSTRAINT token_launches_outcome_check
+        CHECK (outcome IN ('created', 'missing_image', 'not_a_request', 'api_failure', 'failed', 'rejected'));
+  `,
+};
@@ -0,0 +1,15 @@
+import { Migration } from './migration.interface';
+
+export const createQuotaUsage: Migration = {
+  version: 8,
+  name: 'create-quota-usage',
+  up: `
+    CREATE TABLE quota_usage (
+      bucket VARCHAR(32) NOT NULL,
+      period DATE NOT NULL,
+      used INTEGER NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (bucket, period)
+    )
+  `,
+};
@@ -0,0 +1,15 @@
+import { Migration } from './migration.interface';
+
+export const createGeneratedImages: Migration = {
+  version: 9,
+  name: 'create-generated-images',
+  up: `
+    CREATE TABLE generated_images (
+      tweet_id VARCHAR(255) PRIMARY KEY,
+      generator VARCHAR(32) NOT NULL,
+      image BYTEA NOT NULL,
+      mime_type VARCHAR(32) NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `,
+};
@@ -0,0 +1,14 @@
+import { Migration } from './migration.interface';
+
+export const createCoinApiSessions: Migration = {
+  version: 10,
+  name: 'create-coin-api-sessions',
+  up: `
+    CREATE TABLE coin_api_sessions (
+      wallet_address VARCHAR(64) PRIMARY KEY,
+      token TEXT NOT NULL,
+      expires_at TIMESTAMPTZ NOT NULL,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `,
+};
@@ -0,0 +1,12 @@
+import { Migration } from './migration.interface';
+
+export const addMintPendingOutcome: Migration = {
+  version: 11,
+  name: 'add-mint-pending-outcome',
+  up: `
+    ALTER TABLE token_launches
+      DROP CONSTRAINT token_launches_outcome_check,
+      ADD CONSTRAINT token_launches_outcome_check
+        CHECK (outcome IN ('created', 'missing_image', 'not_a_request', 'api_failure', 'failed', 'rejected', 'mint_pending'))
+  `,
+};
@@ -0,0 +1,43 @@
+import { Migration } from './migration.interface';
+
+export const createLaunchFollowUps: Migration = {
+  version: 12,
+  name: 'create-launch-follow-ups',
+  up: `
+    CREATE TABLE launch_follow_ups (
+      id SERIAL PRIMARY KEY,
+      tweet_id VARCHAR(255) NOT NULL,
+      reply_to_tweet_id VARCHAR(255) NOT NULL,
+      author_id VARCHAR(255) NOT NULL,
+      mint_address VARCHAR(64) NOT NULL,
+      token_name VARCHAR(255) NOT NULL,
+      token_symbol VARCHAR(32) NOT NULL,
+      lang VARCHAR(16),
+      delay_seconds INTEGER NOT NULL,
+      due_at TIMESTAMPTZ NOT NULL,
+      next_attempt_at TIMESTAMPTZ NOT NULL,
+      status VARCHAR(16) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'failed')),
+      skip_reason VARCHAR(32),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      reply_tweet_id VARCHAR(255),
+      locked_at TIMESTAMPTZ,
+      sent_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (tweet_id, delay_seconds)
+    );
+
+    CREATE INDEX launch_follow_ups_claim_idx
+      ON launch_follow_ups (status, next_attempt_at);
+    CREATE INDEX launch_follow_ups_author_sent_idx
+      ON launch_follow_ups (author_id, sent_at);
+
+    CREATE TABLE follow_up_opt_outs (
+      author_id VARCHAR(255) PRIMARY KEY,
+      tweet_id VARCHAR(255),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `,
+};
@@ -0,0 +1,16 @@
+import { Migration } from './migration.interface';
+
+export const addAnsweredOutcome: Migration = {
+  version: 13,
+  name: 'add-answered-outcome',
+  up: `
+    ALTER TABLE token_launches
+      DROP CONSTRAINT token_launches_outcome_check,
+      ADD CONSTRAINT token_launches_outcome_check
+        CHECK (outcome IN ('created', 'missing_image', 'not_a_request', 'api_failure', 'failed', 'rejected', 'mint_pending', 'answered'));
+
+    CREATE INDEX token_launches_created_symbol_idx
+      ON token_launches (UPPER(token_symbol))
+      WHERE outcome = 'created';
+  `,
+};
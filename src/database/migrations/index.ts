@@ -0,0 +1,34 @@
+import { createProcessedTweets } from './0001-create-processed-tweets';
+import { createTokenLaunches } from './0002-create-token-launches';
+import { createBotState } from './0003-create-bot-state';
+import { createMentionJobs } from './0004-create-mention-jobs';
+import { createCoinCreations } from './0005-create-coin-creations';
+import { addLaunchFailureReason } from './0006-add-launch-failure-reason';
+import { createAuthorLimits } from './0007-create-author-limits';
+import { createQuotaUsage } from './0008-create-quota-usage';
+import { createGeneratedImages } from './0009-create-generated-images';
+import { createCoinApiSessions } from './0010-create-coin-api-sessions';
+import { addMintPendingOutcome } from './0011-add-mint-pending-outcome';
+import { createLaunchFollowUps } from './0012-create-launch-follow-ups';
+import { addAnsweredOutcome } from './0013-add-answered-outcome';
+import { Migration } from './migration.interface';
+
+export { Migration } from './migration.interface';
+
+// Append new migrations here. Versions must be unique and increasing;
+// never edit a migration that has already shipped.
+export const migrations: Migration[] = [
+  createProcessedTweets,
+  createTokenLaunches,
+  createBotState,
+  createMentionJobs,
+  createCoinCreations,
+  addLaunchFailureReason,
+  createAuthorLimits,
+  createQuotaUsage,
+  createGeneratedImages,
+  createCoinApiSessions,
+  addMintPendingOutcome,
+  createLaunchFollowUps,
+  addAnsweredOutcome,
+];
@@ -0,0 +1,34 @@
+export type FollowUpStatus =
+  | 'pending'
+  | 'sending'
+  | 'sent'
+  | 'skipped'
+  | 'failed';
+
+// Why a follow-up was dropped without replying
+export type FollowUpSkipReason =
+  | 'opted_out'
+  | 'author_limit'
+  | 'expired'
+  | 'no_stats';
+
+// A launch that just got its success reply
+export interface FollowUpLaunch {
+  tweetId: string;
+  // The success reply; follow-ups reply to it to stay in the thread
+  replyTweetId: string;
+  authorId: string;
+  mintAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  lang?: string;
+}
+
+export interface FollowUp extends FollowUpLaunch {
+  id: number;
+  delaySeconds: number;
+  dueAt: Date;
+  status: FollowUpStatus;
+  attempts: number;
+  createdAt: Date;
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { CoinModule } from '../coin/coin.module';
+import { QuotaModule } from '../quota/quota.module';
+import { RepliesModule } from '../replies/replies.module';
+import { TwitterModule } from '../twitter/twitter.module';
+import { FollowUpService } from './follow-up.service';
+import { DexScreenerStatsProvider } from './providers/dexscreener-stats.provider';
+import { HttpStatsProvider } from './providers/http-stats.provider';
+import {
+  TOKEN_STATS_PROVIDERS,
+  TokenStatsProvider,
+} from './token-stats-provider.interface';
+
+const providerClasses = [DexScreenerStatsProvider, HttpStatsProvider];
+
+@Module({
+  imports: [CoinModule, QuotaModule, RepliesModule, TwitterModule],
+  providers: [
+    ...providerClasses,
+    {
+      provide: TOKEN_STATS_PROVIDERS,
+      inject: providerClasses,
+      useFactory: (...providers: TokenStatsProvider[]) => providers,
+    },
+    FollowUpService,
+  ],
+  exports: [FollowUpService],
+})
+export class FollowUpModule {}
@@ -0,0 +1,291 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CoinService } from '../coin/coin.service';
+import { PG_POOL } from '../database/database.constants';
+import { QuotaService } from '../quota/quota.service';
+import { ReplyTemplateService } from '../replies/reply-template.service';
+import { TwitterService } from '../twitter/twitter.service';
+import { FollowUpService } from './follow-up.service';
+import {
+  TOKEN_STATS_PROVIDERS,
+  TokenStatsProvider,
+} from './token-stats-provider.interface';
+
+describe('FollowUpService', () => {
+  let service: FollowUpService;
+  let pool: { query: jest.Mock };
+  let config: Record<string, string>;
+  let twitterService: Record<string, jest.Mock>;
+  let replyTemplates: Record<string, jest.Mock>;
+  let quota: Record<string, jest.Mock>;
+  let statsProvider: TokenStatsProvider & { getStats: jest.Mock };
+  let state: {
+    due: Record<string, unknown>[];
+    sentToAuthor: number;
+  };
+
+  const row = (overrides: Record<string, unknown> = {}) => ({
+    id: 7,
+    tweet_id: 't1',
+    reply_to_tweet_id: 'reply-1',
+    author_id: 'a1',
+    mint_address: 'MintHAL',
+    token_name: 'Pal',
+    token_symbol: 'PAL',
+    lang: null,
+    delay_seconds: 3600,
+    due_at: new Date(),
+    status: 'sending',
+    attempts: 0,
+    created_at: new Date(Date.now() - 3600 * 1000),
+    ...overrides,
+  });
+
+  const update = (status: string) =>
+    pool.query.mock.calls.find(
+      ([sql, params]) =>
+        sql.startsWith('UPDATE launch_follow_ups') &&
+        (sql.includes(`SET status = '${status}'`) || params?.[1] === status),
+    );
+
+  beforeEach(async () => {
+    state = { due: [row()], sentToAuthor: 0 };
+    pool = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes("SET status = 'sending'")) {
+          return { rows: state.due, rowCount: state.due.length };
+        }
+        if (sql.includes('COUNT(*) AS sent')) {
+          return { rows: [{ sent: String(state.sentToAuthor) }] };
+        }
+        return { rows: [], rowCount: 1 };
+      }),
+    };
+    config = {};
+    twitterService = {
+      hasReplyBudget: jest.fn().mockResolvedValue(true),
+      sendReply: jest.fn().mockResolvedValue({ replyTweetId: 'follow-up-1' }),
+    };
+    replyTemplates = {
+      render: jest.fn((key, variables) => `${key}\n${variables.stats}`),
+    };
+    quota = {
+      getUsage: jest
+        .fn()
+        .mockResolvedValue([{ bucket: 'replies', used: 10, limit: 100 }]),
+    };
+    statsProvider = {
+      name: 'dexscreener',
+      isConfigured: () => true,
+      getStats: jest.fn().mockResolvedValue({
+        holders: 1234,
+        marketCapUsd: 45200,
+        volume24hUsd: 12000,
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FollowUpService,
+        { provide: PG_POOL, useValue: pool },
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+        { provide: TwitterService, useValue: twitterService },
+        { provide: ReplyTemplateService, useValue: replyTemplates },
+        { provide: QuotaService, useValue: quota },
+        {
+          provide: CoinService,
+          useValue: {
+            getTokenUrl: (mint: string) => `https://heyhal.xyz/token/${mint}`,
+          },
+        },
+        { provide: TOKEN_STATS_PROVIDERS, useValue: [statsProvider] },
+      ],
+    }).compile();
+
+    service = module.get<FollowUpService>(FollowUpService);
+  });
+
+  describe('scheduling', () => {
+    const launch = {
+      tweetId: 't1',
+      replyTweetId: 'reply-1',
+      authorId: 'a1',
+      mintAddress: 'MintHAL',
+      tokenName: 'Pal',
+      tokenSymbol: 'PAL',
+    };
+
+    it('schedules one follow-up per configured interval', async () => {
+      config.FOLLOW_UP_INTERVALS = '30m, 1h,2d';
+
+      await service.schedule(launch);
+
+      const [sql, params] = pool.query.mock.calls[0];
+      expect(sql).toContain('NOT EXISTS (SELECT 1 FROM follow_up_opt_outs');
+      expect(params[7]).toEqual([1800, 3600, 172800]);
+    });
+
+    it('schedules nothing when there are no intervals', async () => {
+      config.FOLLOW_UP_INTERVALS = '';
+
+      await service.schedule(launch);
+
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('rejects a malformed interval at startup', () => {
+      config.FOLLOW_UP_INTERVALS = '1h,soon';
+
+      expect(() => service.onModuleInit()).toThrow('"soon"');
+    });
+
+    it('does not let a database error escape', async () => {
+      pool.query.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(service.schedule(launch)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('opting out', () => {
+    it('recognizes the keyword on its own after the mentions', () => {
+      expect(service.isOptOut('@bot stop')).toBe(true);
+      expect(service.isOptOut('@bot @alice  STOP ')).toBe(true);
+      expect(service.isOptOut('@bot please stop')).toBe(false);
+      expect(service.isOptOut('@bot make a token called Stop ($STOP)')).toBe(
+        false,
+      );
+    });
+
+    it('uses the configured keyword', () => {
+      config.FOLLOW_UP_OPT_OUT_KEYWORD = 'unsubscribe';
+
+      expect(service.isOptOut('@bot Unsubscribe')).toBe(true);
+      expect(service.isOptOut('@bot stop')).toBe(false);
+    });
+
+    it('cancels the pending follow-ups of the author', async () => {
+      await service.optOut('a1', 't9');
+
+      expect(pool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO follow_up_opt_outs'),
+        ['a1', 't9'],
+      );
+      expect(pool.query).toHaveBeenCalledWith(
+        expect.stringContaining("skip_reason = 'opted_out'"),
+        ['a1'],
+      );
+    });
+  });
+
+  describe('sending', () => {
+    it('replies in the launch thread with the token stats', async () => {
+      await service.processDue();
+
+      expect(statsProvider.getStats).toHaveBeenCalledWith('MintHAL');
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'follow_up_stats',
+        expect.objectContaining({
+          name: 'Pal',
+          tokenUrl: 'https://heyhal.xyz/token/MintHAL',
+          elapsed: '1h',
+          optOutKeyword: 'STOP',
+          stats: '👥 1.2K holders\n💰 $45.2K market cap\n📊 $12K 24h volume',
+        }),
+        undefined,
+      );
+      expect(twitterService.sendReply).toHaveBeenCalledWith(
+        'reply-1',
+        expect.stringContaining('follow_up_stats'),
+      );
+      expect(update('sent')[1]).toEqual([7, 'follow-up-1']);
+    });
+
+    it('shows the price when the market cap is unknown', async () => {
+      statsProvider.getStats.mockResolvedValue({ priceUsd: 0.00001234 });
+
+      await service.processDue();
+
+      expect(replyTemplates.render.mock.calls[0][1].stats).toBe(
+        '💵 $0.0000123 price',
+      );
+    });
+
+    it('skips a token the provider knows nothing about', async () => {
+      statsProvider.getStats.mockResolvedValue(null);
+
+      await service.processDue();
+
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+      expect(update('skipped')[1]).toEqual([7, 'no_stats']);
+    });
+
+    it('skips authors who already got their follow-ups for the day', async () => {
+      config.FOLLOW_UP_MAX_PER_AUTHOR_PER_DAY = '2';
+      state.sentToAuthor = 2;
+
+      await service.processDue();
+
+      expect(statsProvider.getStats).not.toHaveBeenCalled();
+      expect(update('skipped')[1]).toEqual([7, 'author_limit']);
+    });
+
+    it('drops a follow-up that is too late to be useful', async () => {
+      state.due = [row({ due_at: new Date(Date.now() - 3 * 3600 * 1000) })];
+
+      await service.processDue();
+
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+      expect(update('skipped')[1]).toEqual([7, 'expired']);
+    });
+
+    it('leaves the reserved part of the reply quota to launches', async () => {
+      config.FOLLOW_UP_REPLY_RESERVE = '20';
+      quota.getUsage.mockResolvedValue([
+        { bucket: 'replies', used: 80, limit: 100 },
+      ]);
+
+      await service.processDue();
+
+      expect(pool.query).not.toHaveBeenCalled();
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+    });
+
+    it('waits while the reply rate limit or quota is used up', async () => {
+      twitterService.hasReplyBudget.mockResolvedValue(false);
+
+      await service.processDue();
+
+      expect(pool.query).not.toHaveBeenCalled();
+    });
+
+    it('waits for the reply quota to reset without counting an attempt', async () => {
+      const blockedUntil = new Date(Date.now() + 3600 * 1000);
+      twitterService.sendReply.mockResolvedValue({ blockedUntil });
+
+      await service.processDue();
+
+      expect(update('pending')[1]).toEqual([7, blockedUntil]);
+      expect(update('sent')).toBeUndefined();
+    });
+
+    it('retries a failed reply, then gives up', async () => {
+      twitterService.sendReply.mockResolvedValue({});
+
+      await service.processDue();
+      expect(update('pending')[1]).toEqual([
+        7,
+        'pending',
+        1,
+        'Failed to send follow-up reply',
+        300,
+      ]);
+
+      pool.query.mockClear();
+      state.due = [row({ attempts: 2 })];
+      await service.processDue();
+      expect(update('failed')[1]).toEqual(
+        expect.arrayContaining([7, 'failed', 3]),
+      );
+    });
+  });
+});
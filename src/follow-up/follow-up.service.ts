@@ -0,0 +1,425 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { Pool } from 'pg';
+import { CoinService } from '../coin/coin.service';
+import { PG_POOL } from '../database/database.constants';
+import { QuotaService } from '../quota/quota.service';
+import { OPT_OUT_KEYWORD_MAX_LENGTH } from '../replies/reply-template.interface';
+import { ReplyTemplateService } from '../replies/reply-template.service';
+import { TwitterService } from '../twitter/twitter.service';
+import {
+  FollowUp,
+  FollowUpLaunch,
+  FollowUpSkipReason,
+} from './follow-up.interface';
+import {
+  TOKEN_STATS_PROVIDERS,
+  TokenStats,
+  TokenStatsProvider,
+} from './token-stats-provider.interface';
+
+const DURATION_UNITS: Record<string, number> = { m: 60, h: 3600, d: 86400 };
+// A follow-up left `sending` this long by a worker that died is taken again
+const LOCK_TIMEOUT_SECONDS = 300;
+
+const compact = new Intl.NumberFormat('en-US', {
+  notation: 'compact',
+  maximumFractionDigits: 1,
+});
+const price = new Intl.NumberFormat('en-US', {
+  maximumSignificantDigits: 3,
+});
+
+// `1h,24h` → [3600, 86400]
+function parseIntervals(value: string): number[] {
+  return value
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^(\d+)\s*([mhd])$/i);
+      if (!match || parseInt(match[1]) === 0) {
+        throw new Error(
+          `Invalid FOLLOW_UP_INTERVALS entry "${part}", expected e.g. 30m, 1h or 2d`,
+        );
+      }
+      return parseInt(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+    });
+}
+
+function formatElapsed(seconds: number): string {
+  const minutes = Math.max(Math.round(seconds / 60), 1);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) {
+    return `${hours}h`;
+  }
+  // Capped to fit the templates
+  return `${Math.min(Math.round(hours / 24), 999)}d`;
+}
+
+// One line per stat the provider knew; empty if it knew none
+function formatStats(stats: TokenStats): string {
+  const lines: string[] = [];
+  if (stats.holders !== undefined) {
+    lines.push(`👥 ${compact.format(stats.holders)} holders`);
+  }
+  if (stats.marketCapUsd !== undefined) {
+    lines.push(`💰 $${compact.format(stats.marketCapUsd)} market cap`);
+  } else if (stats.priceUsd !== undefined) {
+    lines.push(`💵 $${price.format(stats.priceUsd)} price`);
+  }
+  if (stats.volume24hUsd !== undefined) {
+    lines.push(`📊 $${compact.format(stats.volume24hUsd)} 24h volume`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Replies in a launch's thread some time after the success reply with how
+ * the token is doing, once for each of FOLLOW_UP_INTERVALS. Stats come from
+ * the provider named in TOKEN_STATS_PROVIDER.
+ *
+ * Follow-ups are the first replies to go when budgets run low: they hold
+ * back FOLLOW_UP_REPLY_RESERVE of the daily reply quota for launches, stop
+ * at FOLLOW_UP_MAX_PER_AUTHOR_PER_DAY per author, and are dropped once
+ * they are FOLLOW_UP_MAX_DELAY_MINUTES late. Authors who reply with the
+ * opt-out keyword get none at all.
+ */
+@Injectable()
+export class FollowUpService implements OnModuleInit {
+  private readonly logger = new Logger(FollowUpService.name);
+  private readonly providers: Map<string, TokenStatsProvider>;
+  private isRunning = false;
+
+  constructor(
+    @Inject(PG_POOL) private readonly pool: Pool,
+    private readonly configService: ConfigService,
+    private readonly twitterService: TwitterService,
+    private readonly replyTemplates: ReplyTemplateService,
+    private readonly coinService: CoinService,
+    private readonly quota: QuotaService,
+    @Inject(TOKEN_STATS_PROVIDERS) providers: TokenStatsProvider[],
+  ) {
+    this.providers = new Map(
+      providers.map((provider) => [provider.name, provider]),
+    );
+  }
+
+  // Fails startup on settings that would only break at the first follow-up
+  onModuleInit() {
+    this.getIntervals();
+    if (this.getOptOutKeyword().length > OPT_OUT_KEYWORD_MAX_LENGTH) {
+      throw new Error(
+        `FOLLOW_UP_OPT_OUT_KEYWORD must be at most ${OPT_OUT_KEYWORD_MAX_LENGTH} characters`,
+      );
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.getIntervals().length > 0 && !!this.getProvider();
+  }
+
+  /**
+   * Schedules the follow-ups for a launch, unless its author opted out.
+   * Scheduling twice is harmless. Errors are logged, not thrown: a missed
+   * follow-up isn't worth retrying the success reply over.
+   */
+  async schedule(launch: FollowUpLaunch): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+    try {
+      await this.pool.query(
+        `INSERT INTO launch_follow_ups
+           (tweet_id, reply_to_tweet_id, author_id, mint_address, token_name,
+            token_symbol, lang, delay_seconds, due_at, next_attempt_at)
+         SELECT $1, $2, $3, $4, $5, $6, $7, delay,
+                NOW() + make_interval(secs => delay),
+                NOW() + make_interval(secs => delay)
+         FROM unnest($8::int[]) AS delay
+         WHERE NOT EXISTS (SELECT 1 FROM follow_up_opt_outs WHERE author_id = $3)
+         ON CONFLICT (tweet_id, delay_seconds) DO NOTHING`,
+        [
+          launch.tweetId,
+          launch.replyTweetId,
+          launch.authorId,
+          launch.mintAddress,
+          launch.tokenName,
+          launch.tokenSymbol,
+          launch.lang ?? null,
+          this.getIntervals(),
+        ],
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error scheduling follow-ups for tweet ${launch.tweetId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Whether a mention asks to stop follow-ups: nothing but the opt-out
+   * keyword once the leading @handles are taken off.
+   */
+  isOptOut(text: string): boolean {
+    const keyword = this.getOptOutKeyword();
+    const message = text.replace(/^(\s*@\w+)+/, '').trim();
+    return !!keyword && message.toLowerCase() === keyword.toLowerCase();
+  }
+
+  /** Cancels an author's pending follow-ups and keeps them from new ones. */
+  async optOut(authorId: string, tweetId: string): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO follow_up_opt_outs (author_id, tweet_id) VALUES ($1, $2)
+       ON CONFLICT (author_id) DO NOTHING`,
+      [authorId, tweetId],
+    );
+    const result = await this.pool.query(
+      `UPDATE launch_follow_ups
+       SET status = 'skipped', skip_reason = 'opted_out', locked_at = NULL,
+           updated_at = NOW()
+       WHERE author_id = $1 AND status = 'pending'`,
+      [authorId],
+    );
+    this.logger.log(
+      `🔕 Author ${authorId} opted out of follow-ups, cancelled ${result.rowCount}`,
+    );
+  }
+
+  @Interval(60000)
+  async processDue(): Promise<void> {
+    if (this.isRunning || !this.isEnabled()) {
+      return;
+    }
+    this.isRunning = true;
+    try {
+      if (!(await this.hasReplyBudget())) {
+        return;
+      }
+      for (const followUp of await this.claim(this.getBatchSize())) {
+        // Launch replies may have used up the budget in the meantime
+        if (!(await this.hasReplyBudget())) {
+          await this.release(followUp);
+          continue;
+        }
+        await this.send(followUp);
+      }
+    } catch (error) {
+      this.logger.error('Error processing follow-ups:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async send(followUp: FollowUp): Promise<void> {
+    const lateSeconds = (Date.now() - followUp.dueAt.getTime()) / 1000;
+    if (lateSeconds > this.getMaxDelayMinutes() * 60) {
+      return this.skip(followUp, 'expired');
+    }
+    if (await this.hasReachedAuthorLimit(followUp.authorId)) {
+      return this.skip(followUp, 'author_limit');
+    }
+
+    let replyTweetId: string | undefined;
+    try {
+      const stats = await this.getProvider().getStats(followUp.mintAddress);
+      const statsText = stats ? formatStats(stats) : '';
+      if (!statsText) {
+        return this.skip(followUp, 'no_stats');
+      }
+      const replyText = this.replyTemplates.render(
+        'follow_up_stats',
+        {
+          name: followUp.tokenName,
+          symbol: followUp.tokenSymbol,
+          mintAddress: followUp.mintAddress,
+          tokenUrl: this.coinService.getTokenUrl(followUp.mintAddress),
+          stats: statsText,
+          elapsed: formatElapsed(
+            (Date.now() - followUp.createdAt.getTime()) / 1000,
+          ),
+          optOutKeyword: this.getOptOutKeyword(),
+        },
+        followUp.lang,
+      );
+      const sent = await this.twitterService.sendReply(
+        followUp.replyTweetId,
+        replyText,
+      );
+      if (sent.blockedUntil) {
+        this.logger.warn(
+          `⏸️ Can't send follow-up for tweet ${followUp.tweetId} until ${sent.blockedUntil.toISOString()}, postponing`,
+        );
+        return this.release(followUp, sent.blockedUntil);
+      }
+      replyTweetId = sent.replyTweetId;
+      if (!replyTweetId) {
+        throw new Error('Failed to send follow-up reply');
+      }
+    } catch (error) {
+      return this.retry(followUp, error);
+    }
+
+    await this.pool.query(
+      `UPDATE launch_follow_ups
+       SET status = 'sent', reply_tweet_id = $2, sent_at = NOW(),
+           locked_at = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [followUp.id, replyTweetId],
+    );
+    this.logger.log(
+      `📈 Sent follow-up for ${followUp.tokenName} (tweet ${followUp.tweetId})`,
+    );
+  }
+
+  private async claim(limit: number): Promise<FollowUp[]> {
+    const result = await this.pool.query(
+      `UPDATE launch_follow_ups
+       SET status = 'sending', locked_at = NOW(), updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM launch_follow_ups
+         WHERE (status = 'pending' AND next_attempt_at <= NOW())
+            OR (status = 'sending' AND locked_at < NOW() - make_interval(secs => $2))
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, LOCK_TIMEOUT_SECONDS],
+    );
+    return result.rows.map((row) => this.toFollowUp(row));
+  }
+
+  // Back in the queue without counting an attempt, not before `until`
+  private async release(followUp: FollowUp, until?: Date): Promise<void> {
+    await this.pool.query(
+      `UPDATE launch_follow_ups
+       SET status = 'pending', next_attempt_at = COALESCE($2, next_attempt_at),
+           locked_at = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [followUp.id, until ?? null],
+    );
+  }
+
+  private async skip(
+    followUp: FollowUp,
+    reason: FollowUpSkipReason,
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE launch_follow_ups
+       SET status = 'skipped', skip_reason = $2, locked_at = NULL,
+           updated_at = NOW()
+       WHERE id = $1`,
+      [followUp.id, reason],
+    );
+    this.logger.log(
+      `Skipped follow-up for tweet ${followUp.tweetId} (${reason})`,
+    );
+  }
+
+  private async retry(followUp: FollowUp, error: unknown): Promise<void> {
+    const attempts = followUp.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    const status = attempts >= this.getMaxAttempts() ? 'failed' : 'pending';
+    await this.pool.query(
+      `UPDATE launch_follow_ups
+       SET status = $2, attempts = $3, last_error = $4,
+           next_attempt_at = NOW() + make_interval(secs => $5),
+           locked_at = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [followUp.id, status, attempts, message, this.getRetrySeconds()],
+    );
+    this.logger.warn(
+      `Follow-up for tweet ${followUp.tweetId} failed (attempt ${attempts}${status === 'failed' ? ', giving up' : ''}): ${message}`,
+    );
+  }
+
+  private async hasReachedAuthorLimit(authorId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS sent FROM launch_follow_ups
+       WHERE author_id = $1 AND status = 'sent'
+         AND sent_at > NOW() - INTERVAL '1 day'`,
+      [authorId],
+    );
+    return (
+      parseInt(result.rows[0].sent) >=
+      parseInt(
+        this.configService.get('FOLLOW_UP_MAX_PER_AUTHOR_PER_DAY') ?? '3',
+      )
+    );
+  }
+
+  // The reply rate limit and quota, minus what is held back for launches
+  private async hasReplyBudget(): Promise<boolean> {
+    if (!(await this.twitterService.hasReplyBudget())) {
+      return false;
+    }
+    const reserve = parseInt(
+      this.configService.get('FOLLOW_UP_REPLY_RESERVE') ?? '10',
+    );
+    const { used, limit } = (await this.quota.getUsage()).find(
+      (usage) => usage.bucket === 'replies',
+    );
+    return used + reserve < limit;
+  }
+
+  private getProvider(): TokenStatsProvider | undefined {
+    const provider = this.providers.get(
+      this.configService.get('TOKEN_STATS_PROVIDER') ?? 'dexscreener',
+    );
+    return provider?.isConfigured() ? provider : undefined;
+  }
+
+  private getIntervals(): number[] {
+    return parseIntervals(
+      this.configService.get('FOLLOW_UP_INTERVALS') ?? '1h,24h',
+    );
+  }
+
+  private getOptOutKeyword(): string {
+    return (
+      this.configService.get('FOLLOW_UP_OPT_OUT_KEYWORD') ?? 'STOP'
+    ).trim();
+  }
+
+  private getMaxDelayMinutes(): number {
+    return parseInt(
+      this.configService.get('FOLLOW_UP_MAX_DELAY_MINUTES') ?? '120',
+    );
+  }
+
+  private getMaxAttempts(): number {
+    return parseInt(this.configService.get('FOLLOW_UP_MAX_ATTEMPTS') ?? '3');
+  }
+
+  private getRetrySeconds(): number {
+    return parseInt(this.configService.get('FOLLOW_UP_RETRY_SECONDS') ?? '300');
+  }
+
+  private getBatchSize(): number {
+    return parseInt(this.configService.get('FOLLOW_UP_BATCH_SIZE') ?? '5');
+  }
+
+  private toFollowUp(row: Record<string, any>): FollowUp {
+    return {
+      id: row.id,
+      tweetId: row.tweet_id,
+      replyTweetId: row.reply_to_tweet_id,
+      authorId: row.author_id,
+      mintAddress: row.mint_address,
+      tokenName: row.token_name,
+      tokenSymbol: row.token_symbol,
+      lang: row.lang ?? undefined,
+      delaySeconds: row.delay_seconds,
+      dueAt: row.due_at,
+      status: row.status,
+      attempts: row.attempts,
+      createdAt: row.created_at,
+    };
+  }
+}
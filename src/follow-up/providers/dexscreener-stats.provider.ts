@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import {
+  TokenStats,
+  TokenStatsProvider,
+} from '../token-stats-provider.interface';
+
+interface DexScreenerPair {
+  priceUsd?: string;
+  marketCap?: number;
+  fdv?: number;
+  volume?: { h24?: number };
+  liquidity?: { usd?: number };
+}
+
+/**
+ * Market data from DexScreener's public token endpoint. It has no holder
+ * counts; the numbers come from the token's most liquid pair.
+ */
+@Injectable()
+export class DexScreenerStatsProvider implements TokenStatsProvider {
+  readonly name = 'dexscreener';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async getStats(mintAddress: string): Promise<TokenStats | null> {
+    const baseUrl = (
+      this.configService.get('DEXSCREENER_BASE_URL') ??
+      'https://api.dexscreener.com'
+    ).replace(/\/+$/, '');
+    const response = await axios.get(
+      `${baseUrl}/latest/dex/tokens/${mintAddress}`,
+      {
+        timeout: parseInt(
+          this.configService.get('TOKEN_STATS_TIMEOUT_MS') ?? '10000',
+        ),
+      },
+    );
+    const pairs: DexScreenerPair[] = response.data?.pairs ?? [];
+    if (pairs.length === 0) {
+      return null;
+    }
+    const pair = pairs.reduce((best, candidate) =>
+      (candidate.liquidity?.usd ?? 0) > (best.liquidity?.usd ?? 0)
+        ? candidate
+        : best,
+    );
+    const price = parseFloat(pair.priceUsd);
+    return {
+      marketCapUsd: pair.marketCap ?? pair.fdv,
+      volume24hUsd: pair.volume?.h24,
+      priceUsd: Number.isFinite(price) ? price : undefined,
+    };
+  }
+}
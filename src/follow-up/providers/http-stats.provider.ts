@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import {
+  TokenStats,
+  TokenStatsProvider,
+} from '../token-stats-provider.interface';
+
+const STAT_FIELDS: (keyof TokenStats)[] = [
+  'holders',
+  'marketCapUsd',
+  'volume24hUsd',
+  'priceUsd',
+];
+
+/**
+ * GETs TOKEN_STATS_URL with `{mint}` filled in and expects a TokenStats
+ * object back, or 404 for an unknown token. Lets any indexer be plugged in
+ * behind a small adapter.
+ */
+@Injectable()
+export class HttpStatsProvider implements TokenStatsProvider {
+  readonly name = 'http';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get('TOKEN_STATS_URL');
+  }
+
+  async getStats(mintAddress: string): Promise<TokenStats | null> {
+    const apiKey = this.configService.get('TOKEN_STATS_API_KEY');
+    const response = await axios.get(
+      this.configService
+        .get('TOKEN_STATS_URL')
+        .replace('{mint}', encodeURIComponent(mintAddress)),
+      {
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        timeout: parseInt(
+          this.configService.get('TOKEN_STATS_TIMEOUT_MS') ?? '10000',
+        ),
+        validateStatus: (status) => status < 300 || status === 404,
+      },
+    );
+    if (response.status === 404) {
+      return null;
+    }
+    const stats: TokenStats = {};
+    for (const field of STAT_FIELDS) {
+      const value = response.data?.[field];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        stats[field] = value;
+      }
+    }
+    return stats;
+  }
+}
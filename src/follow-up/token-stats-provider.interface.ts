@@ -0,0 +1,19 @@
+// Whatever the provider knows; fields it can't tell are left out
+export interface TokenStats {
+  holders?: number;
+  marketCapUsd?: number;
+  volume24hUsd?: number;
+  priceUsd?: number;
+}
+
+/**
+ * Looks up how a launched token is doing, for the follow-up replies.
+ * Returns null for a token the provider has no data on yet.
+ */
+export interface TokenStatsProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  getStats(mintAddress: string): Promise<TokenStats | null>;
+}
+
+export const TOKEN_STATS_PROVIDERS = 'TOKEN_STATS_PROVIDERS';
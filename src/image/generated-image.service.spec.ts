@@ -0,0 +1,109 @@
+import { ConfigService } from '@nestjs/config';
+import * as sharp from 'sharp';
+import { QuotaExhaustedError } from '../quota/quota-exhausted.error';
+import { GeneratedImageService } from './generated-image.service';
+import { PlaceholderImageGenerator } from './generators/placeholder-image.generator';
+import { ImageRejectedError } from './image-rejected.error';
+import { ImageService } from './image.service';
+
+describe('GeneratedImageService', () => {
+  let service: GeneratedImageService;
+  let pool: { query: jest.Mock };
+  let config: Record<string, string>;
+  let generator: PlaceholderImageGenerator;
+  let quota: { tryConsume: jest.Mock; refund: jest.Mock };
+
+  const request = { name: 'Moon Cat', symbol: 'MCAT' };
+
+  beforeEach(() => {
+    config = { IMAGE_GENERATION_PROVIDER: 'placeholder' };
+    pool = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+    generator = new PlaceholderImageGenerator();
+    quota = {
+      tryConsume: jest.fn().mockResolvedValue(true),
+      refund: jest.fn(),
+    };
+    const configService = {
+      get: (key: string) => config[key],
+    } as ConfigService;
+    service = new GeneratedImageService(
+      pool as any,
+      configService,
+      new ImageService(configService, []),
+      quota as any,
+      [generator],
+    );
+  });
+
+  it('is only enabled with a configured generator', () => {
+    expect(service.isEnabled()).toBe(true);
+
+    config.IMAGE_GENERATION_PROVIDER = 'openai';
+    expect(service.isEnabled()).toBe(false);
+
+    delete config.IMAGE_GENERATION_PROVIDER;
+    expect(service.isEnabled()).toBe(false);
+  });
+
+  it('generates, normalizes and stores a new image', async () => {
+    const image = await service.getOrGenerate('1', request);
+
+    expect(await sharp(image.buffer).metadata()).toMatchObject({
+      format: 'png',
+      width: 1000,
+      height: 1000,
+    });
+    expect(pool.query).toHaveBeenLastCalledWith(
+      expect.stringContaining('INSERT INTO generated_images'),
+      ['1', 'placeholder', image.buffer, 'image/png'],
+    );
+    expect(quota.tryConsume).toHaveBeenCalledWith('image_generations');
+  });
+
+  it('gives the quota unit back when the generator fails', async () => {
+    jest.spyOn(generator, 'generate').mockRejectedValue(new Error('503'));
+
+    await expect(service.getOrGenerate('1', request)).rejects.toThrow('503');
+
+    expect(quota.refund).toHaveBeenCalledWith('image_generations');
+    expect(pool.query).not.toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO generated_images'),
+      expect.anything(),
+    );
+  });
+
+  it('gives the quota unit back when the generated image is rejected', async () => {
+    jest
+      .spyOn(generator, 'generate')
+      .mockResolvedValue(Buffer.from('not an image'));
+
+    await expect(service.getOrGenerate('1', request)).rejects.toThrow(
+      ImageRejectedError,
+    );
+
+    expect(quota.refund).toHaveBeenCalledWith('image_generations');
+  });
+
+  it('does not generate once the quota is used up', async () => {
+    quota.tryConsume.mockResolvedValue(false);
+    const generate = jest.spyOn(generator, 'generate');
+
+    await expect(service.getOrGenerate('1', request)).rejects.toThrow(
+      QuotaExhaustedError,
+    );
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('reuses the stored image on later calls', async () => {
+    pool.query.mockResolvedValue({
+      rows: [{ image: Buffer.from('stored'), mime_type: 'image/png' }],
+    });
+    const generate = jest.spyOn(generator, 'generate');
+
+    const image = await service.getOrGenerate('1', request);
+
+    expect(image.buffer).toEqual(Buffer.from('stored'));
+    expect(generate).not.toHaveBeenCalled();
+    expect(quota.tryConsume).not.toHaveBeenCalled();
+  });
+});
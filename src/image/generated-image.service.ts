@@ -0,0 +1,97 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Pool } from 'pg';
+import { PG_POOL } from '../database/database.constants';
+import { QuotaExhaustedError } from '../quota/quota-exhausted.error';
+import { QuotaService } from '../quota/quota.service';
+import {
+  IMAGE_GENERATORS,
+  ImageGenerationRequest,
+  ImageGenerator,
+} from './image-generator.interface';
+import { ImageService, PreparedImage } from './image.service';
+
+/**
+ * Token images generated for mentions that came without one, made by the
+ * generator named in IMAGE_GENERATION_PROVIDER. Each tweet's image is kept,
+ * so retries, the coin and the launch card all use the same picture.
+ */
+@Injectable()
+export class GeneratedImageService {
+  private readonly logger = new Logger(GeneratedImageService.name);
+  private readonly generators: Map<string, ImageGenerator>;
+
+  constructor(
+    @Inject(PG_POOL) private readonly pool: Pool,
+    private readonly configService: ConfigService,
+    private readonly imageService: ImageService,
+    private readonly quota: QuotaService,
+    @Inject(IMAGE_GENERATORS) generators: ImageGenerator[],
+  ) {
+    this.generators = new Map(
+      generators.map((generator) => [generator.name, generator]),
+    );
+  }
+
+  /** Whether mentions without an image should get a generated one. */
+  isEnabled(): boolean {
+    return !!this.getGenerator();
+  }
+
+  /**
+   * Returns the tweet's generated image, generating and storing it first if
+   * there is none yet. Generated images are checked like uploaded ones, so
+   * this throws ImageRejectedError for one that doesn't pass. Each
+   * generation takes a unit of the image_generations quota, given back if
+   * the generator fails or its image is rejected; QuotaExhaustedError is
+   * thrown when none is left.
+   */
+  async getOrGenerate(
+    tweetId: string,
+    request: ImageGenerationRequest,
+  ): Promise<PreparedImage> {
+    const stored = await this.pool.query(
+      'SELECT image, mime_type FROM generated_images WHERE tweet_id = $1',
+      [tweetId],
+    );
+    if (stored.rows.length > 0) {
+      const { image, mime_type } = stored.rows[0];
+      // Stored after normalization, so already in the canonical format
+      return { buffer: image, mimeType: mime_type, sourceFormat: 'png' };
+    }
+
+    const generator = this.getGenerator();
+    if (!generator) {
+      throw new Error('No image generator is configured');
+    }
+    this.logger.log(
+      `🎨 Generating an image for ${request.name} ($${request.symbol}) with ${generator.name}`,
+    );
+    if (!(await this.quota.tryConsume('image_generations'))) {
+      throw new QuotaExhaustedError('image_generations');
+    }
+    let image: PreparedImage;
+    try {
+      image = await this.imageService.prepare(
+        await generator.generate(request),
+      );
+    } catch (error) {
+      await this.quota.refund('image_generations');
+      throw error;
+    }
+    await this.pool.query(
+      `INSERT INTO generated_images (tweet_id, generator, image, mime_type)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (tweet_id) DO NOTHING`,
+      [tweetId, generator.name, image.buffer, image.mimeType],
+    );
+    return image;
+  }
+
+  private getGenerator(): ImageGenerator | undefined {
+    const generator = this.generators.get(
+      this.configService.get('IMAGE_GENERATION_PROVIDER'),
+    );
+    return generator?.isConfigured() ? generator : undefined;
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OpenAI } from 'openai';
+import {
+  ImageGenerationRequest,
+  ImageGenerator,
+} from '../image-generator.interface';
+
+export function buildLogoPrompt(request: ImageGenerationRequest): string {
+  return [
+    `A square logo for a crypto token called "${request.name}" ($${request.symbol}).`,
+    request.description ? `About the token: ${request.description}` : '',
+    'One bold, centered mascot or emblem on a simple background.',
+    'Flat colors, no text, no letters, no watermark.',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** OpenAI's image API, using IMAGE_GENERATION_MODEL (dall-e-3 by default). */
+@Injectable()
+export class OpenAiImageGenerator implements ImageGenerator {
+  readonly name = 'openai';
+  private client: OpenAI | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get('OPENAI_API_KEY');
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<Buffer> {
+    const response = await this.getClient().images.generate({
+      model: this.configService.get('IMAGE_GENERATION_MODEL') ?? 'dall-e-3',
+      prompt: buildLogoPrompt(request),
+      n: 1,
+      size: '1024x1024',
+      response_format: 'b64_json',
+    });
+    const image = response.data?.[0]?.b64_json;
+    if (!image) {
+      throw new Error('Image generation returned no image');
+    }
+    return Buffer.from(image, 'base64');
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.configService.get('OPENAI_API_KEY'),
+      });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as sharp from 'sharp';
+import {
+  ImageGenerationRequest,
+  ImageGenerator,
+} from '../image-generator.interface';
+
+const SIZE = 1024;
+
+/**
+ * Draws the symbol on a gradient picked from its hash. Needs no network or
+ * API key, so it's what offline and test setups use.
+ */
+@Injectable()
+export class PlaceholderImageGenerator implements ImageGenerator {
+  readonly name = 'placeholder';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: ImageGenerationRequest): Promise<Buffer> {
+    const hash = createHash('sha256').update(request.symbol).digest();
+    const hue = hash.readUInt16BE(0) % 360;
+    const label = request.symbol
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, '')
+      .slice(0, 4);
+    const fontSize = Math.floor((SIZE * 0.9) / Math.max(label.length, 2));
+
+    const svg = `
+      <svg width="${SIZE}" height="${SIZE}" xmlns="http://www.w3.org/2000/svg">
+        <defs>
+          <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+            <stop offset="0" stop-color="hsl(${hue}, 70%, 55%)" />
+            <stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 70%, 35%)" />
+          </linearGradient>
+        </defs>
+        <rect width="100%" height="100%" fill="url(#bg)" />
+        <circle cx="50%" cy="50%" r="40%" fill="rgba(255,255,255,0.15)" />
+        <text x="50%" y="50%" dy="0.35em" text-anchor="middle"
+          font-family="DejaVu Sans, Arial, sans-serif" font-weight="bold"
+          font-size="${fontSize}" fill="#ffffff">${label}</text>
+      </svg>`;
+    return sharp(Buffer.from(svg)).png().toBuffer();
+  }
+}
@@ -0,0 +1,17 @@
+export interface ImageGenerationRequest {
+  name: string;
+  symbol: string;
+  description?: string;
+}
+
+/**
+ * Makes a token logo from the token's details, for mentions without an
+ * image. The result goes through the same checks as an uploaded image.
+ */
+export interface ImageGenerator {
+  readonly name: string;
+  isConfigured(): boolean;
+  generate(request: ImageGenerationRequest): Promise<Buffer>;
+}
+
+export const IMAGE_GENERATORS = 'IMAGE_GENERATORS';
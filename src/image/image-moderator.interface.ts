@@ -0,0 +1,18 @@
+export interface ImageModerationResult {
+  allowed: boolean;
+  // What the moderator objected to, for the logs
+  labels?: string[];
+}
+
+/**
+ * A content check run on every token image before it leaves the bot. A
+ * moderator that can't give an answer should throw, so the job is retried
+ * rather than the image going out unchecked.
+ */
+export interface ImageModerator {
+  readonly name: string;
+  isConfigured(): boolean;
+  moderate(image: Buffer, mimeType: string): Promise<ImageModerationResult>;
+}
+
+export const IMAGE_MODERATORS = 'IMAGE_MODERATORS';
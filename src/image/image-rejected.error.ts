@@ -0,0 +1,23 @@
+export type ImageRejectionReason =
+  // Over IMAGE_MAX_BYTES
+  | 'too_large'
+  // Wider or taller than IMAGE_MAX_DIMENSION
+  | 'dimensions_too_large'
+  // Narrower or shorter than IMAGE_MIN_DIMENSION
+  | 'dimensions_too_small'
+  // Decodable, but not a format the launchpad takes
+  | 'unsupported_format'
+  // Not an image sharp can read at all
+  | 'unreadable'
+  // Turned down by a content moderator
+  | 'flagged';
+
+export class ImageRejectedError extends Error {
+  constructor(
+    readonly reason: ImageRejectionReason,
+    message: string,
+  ) {
+    super(`Image rejected (${reason}): ${message}`);
+    this.name = ImageRejectedError.name;
+  }
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { QuotaModule } from '../quota/quota.module';
+import { GeneratedImageService } from './generated-image.service';
+import { OpenAiImageGenerator } from './generators/openai-image.generator';
+import { PlaceholderImageGenerator } from './generators/placeholder-image.generator';
+import { IMAGE_GENERATORS, ImageGenerator } from './image-generator.interface';
+import { IMAGE_MODERATORS, ImageModerator } from './image-moderator.interface';
+import { ImageService } from './image.service';
+import { LaunchCardService } from './launch-card.service';
+import { HttpImageModerator } from './moderators/http-image.moderator';
+
+const moderatorClasses = [HttpImageModerator];
+const generatorClasses = [OpenAiImageGenerator, PlaceholderImageGenerator];
+
+@Module({
+  imports: [QuotaModule],
+  providers: [
+    ...moderatorClasses,
+    {
+      provide: IMAGE_MODERATORS,
+      inject: moderatorClasses,
+      useFactory: (...moderators: ImageModerator[]) => moderators,
+    },
+    ...generatorClasses,
+    {
+      provide: IMAGE_GENERATORS,
+      inject: generatorClasses,
+      useFactory: (...generators: ImageGenerator[]) => generators,
+    },
+    ImageService,
+    GeneratedImageService,
+    LaunchCardService,
+  ],
+  exports: [ImageService, GeneratedImageService, LaunchCardService],
+})
+export class ImageModule {}
@@ -0,0 +1,160 @@
+import { ConfigService } from '@nestjs/config';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import * as sharp from 'sharp';
+import { ImageModerator } from './image-moderator.interface';
+import { ImageRejectedError } from './image-rejected.error';
+import { ImageService } from './image.service';
+
+describe('ImageService', () => {
+  let service: ImageService;
+  let config: Record<string, string>;
+  let moderator: jest.Mocked<ImageModerator>;
+
+  const image = (
+    width: number,
+    height: number,
+    format: 'png' | 'jpeg' | 'tiff' = 'png',
+  ) =>
+    sharp({
+      create: { width, height, channels: 3, background: '#ff8800' },
+    })
+      .toFormat(format)
+      .toBuffer();
+
+  const rejection = (promise: Promise<unknown>): Promise<string> =>
+    promise.then(
+      () => {
+        throw new Error('Expected the image to be rejected');
+      },
+      (error) => {
+        expect(error).toBeInstanceOf(ImageRejectedError);
+        return error.reason;
+      },
+    );
+
+  beforeEach(() => {
+    config = { IMAGE_OUTPUT_SIZE: '256' };
+    moderator = {
+      name: 'test',
+      isConfigured: jest.fn().mockReturnValue(true),
+      moderate: jest.fn().mockResolvedValue({ allowed: true }),
+    };
+    service = new ImageService(
+      { get: (key: string) => config[key] } as ConfigService,
+      [moderator],
+    );
+  });
+
+  it('crops to a square PNG of the configured size', async () => {
+    const prepared = await service.prepare(await image(400, 300, 'jpeg'));
+
+    const metadata = await sharp(prepared.buffer).metadata();
+    expect(metadata).toMatchObject({ format: 'png', width: 256, height: 256 });
+    expect(prepared).toMatchObject({
+      mimeType: 'image/png',
+      sourceFormat: 'jpeg',
+    });
+  });
+
+  it('strips EXIF data after applying the orientation', async () => {
+    const rotated = await sharp(await image(400, 200, 'jpeg'))
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+    expect((await sharp(rotated).metadata()).orientation).toBe(6);
+
+    const prepared = await service.prepare(rotated);
+
+    const metadata = await sharp(prepared.buffer).metadata();
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('rejects files over the byte limit', async () => {
+    config.IMAGE_MAX_BYTES = '10';
+
+    expect(await rejection(service.prepare(await image(100, 100)))).toBe(
+      'too_large',
+    );
+  });
+
+  it('rejects images outside the dimension limits', async () => {
+    config.IMAGE_MAX_DIMENSION = '500';
+
+    expect(await rejection(service.prepare(await image(600, 100)))).toBe(
+      'dimensions_too_large',
+    );
+    expect(await rejection(service.prepare(await image(32, 100)))).toBe(
+      'dimensions_too_small',
+    );
+  });
+
+  it('rejects unsupported and unreadable files', async () => {
+    expect(
+      await rejection(service.prepare(await image(100, 100, 'tiff'))),
+    ).toBe('unsupported_format');
+    expect(await rejection(service.prepare(Buffer.from('<html>')))).toBe(
+      'unreadable',
+    );
+  });
+
+  it('rejects images a moderator flags', async () => {
+    moderator.moderate.mockResolvedValue({ allowed: false, labels: ['nsfw'] });
+
+    expect(await rejection(service.prepare(await image(100, 100)))).toBe(
+      'flagged',
+    );
+    expect(moderator.moderate).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      'image/png',
+    );
+  });
+
+  it('skips moderators that are not configured or not wanted', async () => {
+    await service.prepare(await image(100, 100), { skipModeration: true });
+    moderator.isConfigured.mockReturnValue(false);
+    await service.prepare(await image(100, 100));
+
+    expect(moderator.moderate).not.toHaveBeenCalled();
+  });
+
+  describe('download', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    // /slow sends the headers and then stalls; /large sends 2 KB
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        if (req.url === '/slow') {
+          res.writeHead(200, { 'Content-Type': 'image/png' });
+          res.write(Buffer.alloc(16));
+          return;
+        }
+        res.end(Buffer.alloc(2048));
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('gives up on a host that stalls', async () => {
+      config.IMAGE_DOWNLOAD_TIMEOUT_MS = '200';
+
+      await expect(service.download(`${baseUrl}/slow`)).rejects.toThrow(
+        'Image download timed out after 200ms',
+      );
+    });
+
+    it('rejects a download past the size limit', async () => {
+      config.IMAGE_MAX_BYTES = '1024';
+
+      expect(await rejection(service.download(`${baseUrl}/large`))).toBe(
+        'too_large',
+      );
+    });
+  });
+});
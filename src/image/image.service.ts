@@ -0,0 +1,165 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as sharp from 'sharp';
+import { ImageRejectedError } from './image-rejected.error';
+import { IMAGE_MODERATORS, ImageModerator } from './image-moderator.interface';
+
+// Formats the launchpad takes; animated GIFs are cut to their first frame
+const SUPPORTED_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+export interface PreparedImage {
+  buffer: Buffer;
+  mimeType: string;
+  // Format of the image as sent, before normalization
+  sourceFormat: string;
+}
+
+export interface PrepareImageOptions {
+  // For images already screened, e.g. when re-rendering for the reply
+  skipModeration?: boolean;
+}
+
+/**
+ * Turns a user's image into a token image: checks its size and format,
+ * crops it to a square PNG without metadata and runs it past the content
+ * moderators. Anything unusable is rejected with an ImageRejectedError.
+ */
+@Injectable()
+export class ImageService {
+  private readonly logger = new Logger(ImageService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(IMAGE_MODERATORS) private readonly moderators: ImageModerator[],
+  ) {}
+
+  /**
+   * Downloads an image, giving up once it grows past IMAGE_MAX_BYTES or
+   * takes longer than IMAGE_DOWNLOAD_TIMEOUT_MS, so a stalled host can't
+   * hold a worker.
+   */
+  async download(url: string): Promise<Buffer> {
+    const maxBytes = this.getMaxBytes();
+    const timeoutMs = parseInt(
+      this.configService.get('IMAGE_DOWNLOAD_TIMEOUT_MS') ?? '15000',
+    );
+    try {
+      const response = await axios.get(url, {
+        responseType: 'arraybuffer',
+        maxContentLength: maxBytes,
+        timeout: timeoutMs,
+        // The timeout above only covers the wait for a response
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes('maxContentLength')
+      ) {
+        throw new ImageRejectedError(
+          'too_large',
+          `download exceeded ${maxBytes} bytes`,
+        );
+      }
+      if (axios.isCancel(error) || error?.code === 'ECONNABORTED') {
+        throw new Error(`Image download timed out after ${timeoutMs}ms`);
+      }
+      throw error;
+    }
+  }
+
+  async prepare(
+    buffer: Buffer,
+    options: PrepareImageOptions = {},
+  ): Promise<PreparedImage> {
+    const maxBytes = this.getMaxBytes();
+    if (buffer.length > maxBytes) {
+      throw new ImageRejectedError(
+        'too_large',
+        `${buffer.length} bytes is over the ${maxBytes} byte limit`,
+      );
+    }
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(buffer).metadata();
+    } catch (error) {
+      throw new ImageRejectedError('unreadable', error.message);
+    }
+    if (!SUPPORTED_FORMATS.includes(metadata.format)) {
+      throw new ImageRejectedError(
+        'unsupported_format',
+        `${metadata.format ?? 'unknown'} is not supported`,
+      );
+    }
+
+    const { width, height } = metadata;
+    const maxDimension = this.getDimensionLimit('MAX', '4096');
+    const minDimension = this.getDimensionLimit('MIN', '64');
+    if (width > maxDimension || height > maxDimension) {
+      throw new ImageRejectedError(
+        'dimensions_too_large',
+        `${width}x${height} is over ${maxDimension}px`,
+      );
+    }
+    if (width < minDimension || height < minDimension) {
+      throw new ImageRejectedError(
+        'dimensions_too_small',
+        `${width}x${height} is under ${minDimension}px`,
+      );
+    }
+
+    const size = this.getOutputSize();
+    const image: PreparedImage = {
+      // rotate() applies the EXIF orientation before the output drops all
+      // metadata, so stripping EXIF can't leave the image sideways
+      buffer: await sharp(buffer)
+        .rotate()
+        .resize(size, size, { fit: 'cover' })
+        .png()
+        .toBuffer(),
+      mimeType: 'image/png',
+      sourceFormat: metadata.format,
+    };
+
+    if (!options.skipModeration) {
+      await this.moderate(image);
+    }
+    return image;
+  }
+
+  private async moderate(image: PreparedImage) {
+    const moderators = this.moderators.filter((moderator) =>
+      moderator.isConfigured(),
+    );
+    for (const moderator of moderators) {
+      const result = await moderator.moderate(image.buffer, image.mimeType);
+      if (!result.allowed) {
+        const labels = result.labels?.length
+          ? ` (${result.labels.join(', ')})`
+          : '';
+        this.logger.warn(`Image flagged by ${moderator.name}${labels}`);
+        throw new ImageRejectedError(
+          'flagged',
+          `flagged by ${moderator.name}${labels}`,
+        );
+      }
+    }
+  }
+
+  private getMaxBytes(): number {
+    return parseInt(this.configService.get('IMAGE_MAX_BYTES') ?? '5242880');
+  }
+
+  private getDimensionLimit(bound: 'MAX' | 'MIN', fallback: string): number {
+    return parseInt(
+      this.configService.get(`IMAGE_${bound}_DIMENSION`) ?? fallback,
+    );
+  }
+
+  private getOutputSize(): number {
+    return parseInt(this.configService.get('IMAGE_OUTPUT_SIZE') ?? '1000');
+  }
+}
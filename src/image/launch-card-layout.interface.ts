@@ -0,0 +1,43 @@
+export interface CardTextBox {
+  // Anchor of the text's baseline; see `align`
+  x: number;
+  y: number;
+  // Text is shrunk to fit this width
+  width: number;
+  fontSize: number;
+  color: string;
+  align?: 'start' | 'middle' | 'end';
+}
+
+export interface CardSquare {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/**
+ * Where everything goes on a launch card, loaded from
+ * `<LAUNCH_CARD_TEMPLATES_DIR>/<layout>.json`. Positions are in pixels from
+ * the top left of the card.
+ */
+export interface LaunchCardLayout {
+  width: number;
+  height: number;
+  background: string;
+  fontFamily: string;
+  image: CardSquare & { radius?: number };
+  name: CardTextBox;
+  symbol: CardTextBox;
+  mintAddress: CardTextBox;
+  qrCode: CardSquare & { color?: string; background?: string };
+  branding: CardTextBox & { text: string };
+}
+
+export interface LaunchCardDetails {
+  // Normalized square token image
+  image: Buffer;
+  name: string;
+  symbol: string;
+  mintAddress: string;
+  tokenUrl: string;
+}
@@ -0,0 +1,76 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as sharp from 'sharp';
+import { LaunchCardService, shortenAddress } from './launch-card.service';
+
+describe('LaunchCardService', () => {
+  let config: Record<string, string>;
+  let service: LaunchCardService;
+
+  const templatesDirectory = path.join(process.cwd(), 'templates', 'cards');
+
+  beforeEach(() => {
+    config = { LAUNCH_CARD_TEMPLATES_DIR: templatesDirectory };
+    service = new LaunchCardService({
+      get: (key: string) => config[key],
+    } as ConfigService);
+  });
+
+  it.each([
+    ['landscape', 1200, 675],
+    ['square', 1080, 1080],
+  ])('renders the %s layout', async (layout, width, height) => {
+    config.LAUNCH_CARD_LAYOUT = layout;
+    await service.load();
+
+    const card = await service.render({
+      image: await sharp({
+        create: { width: 64, height: 64, channels: 3, background: '#00ff00' },
+      })
+        .png()
+        .toBuffer(),
+      name: 'Pal <& friends>',
+      symbol: 'PAL',
+      mintAddress: '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU',
+      tokenUrl: 'https://heyhal.xyz/token/7xKX',
+    });
+
+    expect(await sharp(card).metadata()).toMatchObject({
+      format: 'png',
+      width,
+      height,
+    });
+  });
+
+  it('fails to load an unknown or malformed layout', async () => {
+    config.LAUNCH_CARD_LAYOUT = 'poster';
+    await expect(service.load()).rejects.toThrow('no layout named "poster"');
+
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cards-'));
+    const landscape = JSON.parse(
+      await fs.readFile(
+        path.join(templatesDirectory, 'landscape.json'),
+        'utf-8',
+      ),
+    );
+    await fs.writeFile(
+      path.join(directory, 'landscape.json'),
+      JSON.stringify({ ...landscape, qrCode: { x: 1100, y: 600, size: 200 } }),
+    );
+    config = { LAUNCH_CARD_TEMPLATES_DIR: directory };
+
+    await expect(service.load()).rejects.toThrow(
+      '"qrCode" must be a square inside the card',
+    );
+    await fs.rm(directory, { recursive: true });
+  });
+
+  it('shortens mint addresses', () => {
+    expect(shortenAddress('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU')).toBe(
+      '7xKX…gAsU',
+    );
+    expect(shortenAddress('short')).toBe('short');
+  });
+});
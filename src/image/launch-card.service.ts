@@ -0,0 +1,227 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as QRCode from 'qrcode';
+import * as sharp from 'sharp';
+import {
+  CardSquare,
+  CardTextBox,
+  LaunchCardDetails,
+  LaunchCardLayout,
+} from './launch-card-layout.interface';
+
+// Rough advance width of a bold sans-serif glyph, as a share of font size
+const GLYPH_WIDTH_RATIO = 0.7;
+const MIN_FONT_SIZE = 12;
+
+/** `7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU` → `7xKX…gAsU` */
+export function shortenAddress(address: string): string {
+  return address.length > 12
+    ? `${address.slice(0, 4)}…${address.slice(-4)}`
+    : address;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        '&': '&amp;',
+        '<': '&lt;',
+        '>': '&gt;',
+        '"': '&quot;',
+        "'": '&apos;',
+      })[char],
+  );
+}
+
+/**
+ * Renders the launch announcement card attached to the success reply: the
+ * token image, name, symbol, shortened CA, a QR code to the token page and
+ * the project branding, placed by the layout named in LAUNCH_CARD_LAYOUT.
+ */
+@Injectable()
+export class LaunchCardService implements OnModuleInit {
+  private readonly logger = new Logger(LaunchCardService.name);
+  private layouts = new Map<string, LaunchCardLayout>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit() {
+    await this.load();
+  }
+
+  /**
+   * Reads and validates every layout. Throws, failing startup, if one is
+   * malformed or the configured layout doesn't exist.
+   */
+  async load(): Promise<void> {
+    const directory = this.getTemplatesDirectory();
+    const files = (await fs.readdir(directory)).filter((file) =>
+      file.endsWith('.json'),
+    );
+
+    const layouts = new Map<string, LaunchCardLayout>();
+    const errors: string[] = [];
+    for (const file of files) {
+      const layout: LaunchCardLayout = JSON.parse(
+        await fs.readFile(path.join(directory, file), 'utf-8'),
+      );
+      errors.push(...this.validate(layout).map((error) => `${file}: ${error}`));
+      layouts.set(path.basename(file, '.json'), layout);
+    }
+    if (!layouts.has(this.getLayoutName())) {
+      errors.push(`no layout named "${this.getLayoutName()}"`);
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid launch card layouts:\n${errors.join('\n')}`);
+    }
+    this.layouts = layouts;
+    this.logger.log(
+      `Loaded launch card layouts: ${[...layouts.keys()].join(', ')}`,
+    );
+  }
+
+  /** Renders the card as a PNG. */
+  async render(details: LaunchCardDetails): Promise<Buffer> {
+    const layout = this.layouts.get(this.getLayoutName());
+    const { image, qrCode } = layout;
+
+    const tokenImage = await sharp(details.image)
+      .resize(image.size, image.size, { fit: 'cover' })
+      .composite([
+        {
+          input: Buffer.from(
+            `<svg width="${image.size}" height="${image.size}"><rect width="100%" height="100%" rx="${image.radius ?? 0}" /></svg>`,
+          ),
+          blend: 'dest-in',
+        },
+      ])
+      .png()
+      .toBuffer();
+
+    const qrImage = await QRCode.toBuffer(details.tokenUrl, {
+      type: 'png',
+      width: qrCode.size,
+      margin: 2,
+      errorCorrectionLevel: 'M',
+      color: {
+        dark: qrCode.color ?? '#000000',
+        light: qrCode.background ?? '#ffffff',
+      },
+    });
+
+    return sharp({
+      create: {
+        width: layout.width,
+        height: layout.height,
+        channels: 4,
+        background: layout.background,
+      },
+    })
+      .composite([
+        { input: tokenImage, left: image.x, top: image.y },
+        {
+          // The QR encoder rounds to whole modules, so pin the size
+          input: await sharp(qrImage)
+            .resize(qrCode.size, qrCode.size, { kernel: 'nearest' })
+            .toBuffer(),
+          left: qrCode.x,
+          top: qrCode.y,
+        },
+        {
+          input: Buffer.from(this.renderText(layout, details)),
+          left: 0,
+          top: 0,
+        },
+      ])
+      .png()
+      .toBuffer();
+  }
+
+  private renderText(
+    layout: LaunchCardLayout,
+    details: LaunchCardDetails,
+  ): string {
+    const lines = [
+      this.renderLine(layout.name, details.name, 'bold'),
+      this.renderLine(layout.symbol, `$${details.symbol}`, 'bold'),
+      this.renderLine(
+        layout.mintAddress,
+        `CA: ${shortenAddress(details.mintAddress)}`,
+        'normal',
+      ),
+      this.renderLine(layout.branding, layout.branding.text, 'bold'),
+    ];
+    return `<svg width="${layout.width}" height="${layout.height}" font-family="${escapeXml(layout.fontFamily)}">${lines.join('')}</svg>`;
+  }
+
+  // One line of text, shrunk until it fits the box's width
+  private renderLine(
+    box: CardTextBox,
+    text: string,
+    weight: 'bold' | 'normal',
+  ): string {
+    const fittedSize = Math.floor(
+      box.width / (Math.max([...text].length, 1) * GLYPH_WIDTH_RATIO),
+    );
+    const fontSize = Math.max(
+      Math.min(box.fontSize, fittedSize),
+      MIN_FONT_SIZE,
+    );
+    return `<text x="${box.x}" y="${box.y}" font-size="${fontSize}" font-weight="${weight}" fill="${escapeXml(box.color)}" text-anchor="${box.align ?? 'start'}">${escapeXml(text)}</text>`;
+  }
+
+  private validate(layout: LaunchCardLayout): string[] {
+    const errors: string[] = [];
+    const isPositive = (value: unknown) =>
+      typeof value === 'number' && value > 0;
+    if (!isPositive(layout.width) || !isPositive(layout.height)) {
+      return ['width and height must be positive numbers'];
+    }
+
+    for (const key of ['image', 'qrCode'] as const) {
+      const square: CardSquare = layout[key];
+      if (
+        !square ||
+        !isPositive(square.size) ||
+        !(square.x >= 0) ||
+        !(square.y >= 0) ||
+        square.x + square.size > layout.width ||
+        square.y + square.size > layout.height
+      ) {
+        errors.push(`"${key}" must be a square inside the card`);
+      }
+    }
+    for (const key of ['name', 'symbol', 'mintAddress', 'branding'] as const) {
+      const box: CardTextBox = layout[key];
+      if (
+        !box ||
+        !isPositive(box.width) ||
+        !isPositive(box.fontSize) ||
+        typeof box.color !== 'string' ||
+        !(box.x >= 0 && box.x <= layout.width) ||
+        !(box.y >= 0 && box.y <= layout.height)
+      ) {
+        errors.push(`"${key}" must be a text box inside the card`);
+      }
+    }
+    if (typeof layout.branding?.text !== 'string') {
+      errors.push('"branding" needs a text');
+    }
+    return errors;
+  }
+
+  private getTemplatesDirectory(): string {
+    return (
+      this.configService.get('LAUNCH_CARD_TEMPLATES_DIR') ??
+      path.join(process.cwd(), 'templates', 'cards')
+    );
+  }
+
+  private getLayoutName(): string {
+    return this.configService.get('LAUNCH_CARD_LAYOUT') ?? 'landscape';
+  }
+}
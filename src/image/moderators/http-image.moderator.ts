@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import {
+  ImageModerationResult,
+  ImageModerator,
+} from '../image-moderator.interface';
+
+/**
+ * Posts the image to IMAGE_MODERATION_URL and expects
+ * `{ "flagged": boolean, "labels"?: string[] }` back. Lets any screening
+ * service be plugged in behind a small adapter.
+ */
+@Injectable()
+export class HttpImageModerator implements ImageModerator {
+  readonly name = 'http';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get('IMAGE_MODERATION_URL');
+  }
+
+  async moderate(
+    image: Buffer,
+    mimeType: string,
+  ): Promise<ImageModerationResult> {
+    const apiKey = this.configService.get('IMAGE_MODERATION_API_KEY');
+    const response = await axios.post(
+      this.configService.get('IMAGE_MODERATION_URL'),
+      image,
+      {
+        headers: {
+          'Content-Type': mimeType,
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        timeout: parseInt(
+          this.configService.get('IMAGE_MODERATION_TIMEOUT_MS') ?? '10000',
+        ),
+      },
+    );
+    if (typeof response.data?.flagged !== 'boolean') {
+      throw new Error('Moderation response has no "flagged" field');
+    }
+    return {
+      allowed: !response.data.flagged,
+      labels: response.data?.labels,
+    };
+  }
+}
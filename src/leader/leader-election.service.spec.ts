@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { PG_POOL } from '../database/database.constants';
+import { LeaderElectionService } from './leader-election.service';
+
+describe('LeaderElectionService', () => {
+  let service: LeaderElectionService;
+  let pool: { connect: jest.Mock };
+  let client: { query: jest.Mock; release: jest.Mock; on: jest.Mock };
+  let lockFree: boolean;
+
+  beforeEach(async () => {
+    lockFree = true;
+    client = {
+      query: jest.fn(async (sql: string) =>
+        sql.includes('pg_try_advisory_lock')
+          ? { rows: [{ acquired: lockFree }] }
+          : { rows: [] },
+      ),
+      release: jest.fn(),
+      on: jest.fn(),
+    };
+    pool = { connect: jest.fn().mockResolvedValue(client) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeaderElectionService,
+        { provide: PG_POOL, useValue: pool },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: SchedulerRegistry, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<LeaderElectionService>(LeaderElectionService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leads once it holds the lock, with the lease enforced by the server', async () => {
+    await service.tick();
+
+    expect(service.isLeader()).toBe(true);
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('idle_session_timeout'),
+      ['30s'],
+    );
+    expect(client.release).not.toHaveBeenCalled();
+  });
+
+  it('stays a follower and returns the connection while another replica leads', async () => {
+    lockFree = false;
+
+    await service.tick();
+
+    expect(service.isLeader()).toBe(false);
+    expect(client.release).toHaveBeenCalledWith();
+  });
+
+  it('takes over once the lock is released', async () => {
+    lockFree = false;
+    await service.tick();
+    lockFree = true;
+    await service.tick();
+
+    expect(service.isLeader()).toBe(true);
+  });
+
+  it('renews its lease while leading', async () => {
+    await service.tick();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 25_000);
+
+    await service.tick();
+
+    expect(client.query).toHaveBeenLastCalledWith('SELECT 1');
+    jest.spyOn(Date, 'now').mockReturnValue(now + 50_000);
+    expect(service.isLeader()).toBe(true);
+  });
+
+  it('stops leading when the lease runs out without a renewal', async () => {
+    await service.tick();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 31_000);
+
+    expect(service.isLeader()).toBe(false);
+  });
+
+  it('steps down and drops the connection when renewal fails', async () => {
+    await service.tick();
+    client.query.mockRejectedValueOnce(new Error('terminated'));
+
+    await service.tick();
+
+    expect(service.isLeader()).toBe(false);
+    expect(client.release).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Pool, PoolClient } from 'pg';
+import { PG_POOL } from '../database/database.constants';
+
+// Arbitrary key shared by every replica; distinct from the migration lock
+const LEADER_LOCK_KEY = 7214002;
+const LEADER_INTERVAL_NAME = 'leaderElection';
+
+/**
+ * Elects one replica to run the singleton jobs, like mention polling.
+ *
+ * The leader holds a Postgres advisory lock on a dedicated connection and
+ * renews its lease by pinging that connection. The session is started with
+ * `idle_session_timeout` set to the lease, so a leader that stops renewing
+ * is disconnected by the server and its lock passes to the next replica that
+ * asks. A leader that can't renew in time also stops acting as leader on its
+ * own, before the server gets there.
+ */
+@Injectable()
+export class LeaderElectionService
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(LeaderElectionService.name);
+  private client: PoolClient | null = null;
+  private leaseExpiresAt = 0;
+  private isTicking = false;
+
+  constructor(
+    @Inject(PG_POOL) private readonly pool: Pool,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+  ) {}
+
+  async onModuleInit() {
+    await this.tick();
+    this.schedulerRegistry.addInterval(
+      LEADER_INTERVAL_NAME,
+      setInterval(() => this.tick(), this.getRenewSeconds() * 1000),
+    );
+  }
+
+  async onApplicationShutdown() {
+    this.schedulerRegistry.deleteInterval(LEADER_INTERVAL_NAME);
+    if (this.client) {
+      await this.client
+        .query('SELECT pg_advisory_unlock($1)', [LEADER_LOCK_KEY])
+        .catch(() => undefined);
+      this.stepDown('shutting down');
+    }
+  }
+
+  isLeader(): boolean {
+    return this.client !== null && Date.now() < this.leaseExpiresAt;
+  }
+
+  /** Renews the lease if this replica leads, or tries to take over if not. */
+  async tick(): Promise<void> {
+    if (this.isTicking) {
+      return;
+    }
+    this.isTicking = true;
+    try {
+      if (this.client) {
+        await this.renew();
+      } else {
+        await this.campaign();
+      }
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async renew() {
+    try {
+      await this.client.query('SELECT 1');
+      this.leaseExpiresAt = Date.now() + this.getLeaseSeconds() * 1000;
+    } catch (error) {
+      this.logger.error('Failed to renew leader lease:', error);
+      this.stepDown('lease renewal failed');
+    }
+  }
+
+  private async campaign() {
+    let client: PoolClient;
+    try {
+      client = await this.pool.connect();
+      const result = await client.query(
+        'SELECT pg_try_advisory_lock($1) AS acquired',
+        [LEADER_LOCK_KEY],
+      );
+      if (!result.rows[0].acquired) {
+        client.release();
+        return;
+      }
+    } catch (error) {
+      this.logger.error('Error campaigning for leadership:', error);
+      client?.release(true);
+      return;
+    }
+
+    try {
+      await client.query(
+        "SELECT set_config('idle_session_timeout', $1, false)",
+        [`${this.getLeaseSeconds()}s`],
+      );
+    } catch (error) {
+      // idle_session_timeout needs Postgres 14; without it a hung leader
+      // keeps the lock until its connection drops
+      this.logger.warn(
+        `Could not set idle_session_timeout on the leader connection: ${error.message}`,
+      );
+    }
+
+    client.on('error', (error) => {
+      this.logger.error('Leader connection error:', error);
+      if (this.client === client) {
+        this.stepDown('connection lost');
+      }
+    });
+    this.client = client;
+    this.leaseExpiresAt = Date.now() + this.getLeaseSeconds() * 1000;
+    this.logger.log('👑 Became leader');
+  }
+
+  private stepDown(reason: string) {
+    // Destroying the connection releases the advisory lock
+    this.client?.release(true);
+    this.client = null;
+    this.leaseExpiresAt = 0;
+    this.logger.warn(`Stepped down as leader (${reason})`);
+  }
+
+  private getLeaseSeconds(): number {
+    return parseInt(this.configService.get('LEADER_LEASE_SECONDS') ?? '30');
+  }
+
+  private getRenewSeconds(): number {
+    return parseInt(this.configService.get('LEADER_RENEW_SECONDS') ?? '10');
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { LeaderElectionService } from './leader-election.service';
+
+@Module({
+  providers: [LeaderElectionService],
+  exports: [LeaderElectionService],
+})
+export class LeaderModule {}
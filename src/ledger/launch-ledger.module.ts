@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { LaunchLedgerService } from './launch-ledger.service';
+
+@Module({
+  providers: [LaunchLedgerService],
+  exports: [LaunchLedgerService],
+})
+export class LaunchLedgerModule {}
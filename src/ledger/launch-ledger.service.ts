@@ -0,0 +1,127 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Pool } from 'pg';
+import { PG_POOL } from '../database/database.constants';
+import { LaunchRecord } from './launch-record.interface';
+
+const COLUMNS: Record<Exclude<keyof LaunchRecord, 'tweetId'>, string> = {
+  authorId: 'author_id',
+  authorUsername: 'author_username',
+  tokenName: 'token_name',
+  tokenSymbol: 'token_symbol',
+  tokenDescription: 'token_description',
+  imageUrl: 'image_url',
+  mintAddress: 'mint_address',
+  replyTweetId: 'reply_tweet_id',
+  outcome: 'outcome',
+  failureReason: 'failure_reason',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  processedAt: 'processed_at',
+};
+
+@Injectable()
+export class LaunchLedgerService {
+  private readonly logger = new Logger(LaunchLedgerService.name);
+
+  constructor(@Inject(PG_POOL) private readonly pool: Pool) {}
+
+  /**
+   * Whether the tweet was handled already. Database errors are thrown, not
+   * read as "no", so a handled tweet is never picked up again.
+   */
+  async isProcessed(tweetId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT EXISTS(SELECT 1 FROM token_launches WHERE tweet_id = $1 AND processed_at IS NOT NULL)',
+      [tweetId],
+    );
+    return result.rows[0].exists;
+  }
+
+  /**
+   * Upserts the launch record for a tweet. Only the fields present in
+   * `record` are written, so callers can fill the row in as they go.
+   */
+  async record(record: LaunchRecord): Promise<void> {
+    const fields = Object.keys(COLUMNS).filter(
+      (key) => record[key] !== undefined,
+    );
+    const columns = fields.map((key) => COLUMNS[key]);
+    const values = fields.map((key) => record[key]);
+    const updates = columns
+      .filter((column) => column !== 'created_at')
+      .map((column) => `${column} = EXCLUDED.${column}`)
+      .concat('updated_at = NOW()');
+
+    try {
+      await this.pool.query(
+        `INSERT INTO token_launches (tweet_id${columns.map((c) => `, ${c}`).join('')})
+         VALUES ($1${values.map((_, i) => `, $${i + 2}`).join('')})
+         ON CONFLICT (tweet_id) DO UPDATE SET ${updates.join(', ')}`,
+        [record.tweetId, ...values],
+      );
+    } catch (error) {
+      // Logged rather than thrown: this mostly runs after a reply went out,
+      // and retrying the job would send that reply again
+      this.logger.error(
+        `Error recording launch for tweet ${record.tweetId}:`,
+        error,
+      );
+    }
+  }
+
+  async markProcessed(record: LaunchRecord): Promise<void> {
+    await this.record({ ...record, processedAt: new Date() });
+    this.logger.log(`Marked tweet ${record.tweetId} as processed`);
+  }
+
+  async clearProcessed(tweetId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE token_launches SET processed_at = NULL, updated_at = NOW()
+       WHERE tweet_id = $1`,
+      [tweetId],
+    );
+    return result.rowCount > 0;
+  }
+
+  async findByTweetId(tweetId: string): Promise<LaunchRecord | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM token_launches WHERE tweet_id = $1',
+      [tweetId],
+    );
+    return result.rows[0] ? this.toRecord(result.rows[0]) : null;
+  }
+
+  /**
+   * The most recent coin the bot created with this symbol or name, either
+   * matched case-insensitively.
+   */
+  async findCreatedToken(query: string): Promise<LaunchRecord | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM token_launches
+       WHERE outcome = 'created' AND mint_address IS NOT NULL
+         AND (UPPER(token_symbol) = UPPER($1) OR LOWER(token_name) = LOWER($1))
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [query],
+    );
+    return result.rows[0] ? this.toRecord(result.rows[0]) : null;
+  }
+
+  async listRecent(limit = 50): Promise<LaunchRecord[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM token_launches ORDER BY created_at DESC LIMIT $1',
+      [limit],
+    );
+    return result.rows.map((row) => this.toRecord(row));
+  }
+
+  private toRecord(row: Record<string, any>): LaunchRecord {
+    const record: LaunchRecord = { tweetId: row.tweet_id };
+    for (const [key, column] of Object.entries(COLUMNS)) {
+      if (row[column] !== null && row[column] !== undefined) {
+        record[key] = row[column];
+      }
+    }
+    return record;
+  }
+}
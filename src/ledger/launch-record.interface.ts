@@ -0,0 +1,60 @@
+export type LaunchOutcome =
+  | 'created'
+  | 'missing_image'
+  | 'not_a_request'
+  | 'api_failure'
+  | 'failed'
+  // The launchpad returned a mint that isn't on chain yet
+  | 'mint_pending'
+  // Turned away by the per-author limits before any work was done
+  | 'rejected'
+  // A question the bot replied to
+  | 'answered';
+
+/**
+ * Why a token request ended without a coin. Each reason has its own reply
+ * template so the user learns what to fix.
+ */
+export type LaunchFailureReason =
+  | 'unparseable_name'
+  | 'invalid_symbol'
+  | 'image_download_failed'
+  | 'image_too_large'
+  | 'image_too_small'
+  | 'image_unsupported'
+  | 'image_flagged'
+  | 'name_taken'
+  | 'coin_api_rejected'
+  | 'mint_unconfirmed'
+  | 'internal_error';
+
+export const LAUNCH_FAILURE_REASONS: LaunchFailureReason[] = [
+  'unparseable_name',
+  'invalid_symbol',
+  'image_download_failed',
+  'image_too_large',
+  'image_too_small',
+  'image_unsupported',
+  'image_flagged',
+  'name_taken',
+  'coin_api_rejected',
+  'mint_unconfirmed',
+  'internal_error',
+];
+
+export interface LaunchRecord {
+  tweetId: string;
+  authorId?: string;
+  authorUsername?: string;
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenDescription?: string;
+  imageUrl?: string;
+  mintAddress?: string;
+  replyTweetId?: string;
+  outcome?: LaunchOutcome;
+  failureReason?: LaunchFailureReason;
+  createdAt?: Date;
+  updatedAt?: Date;
+  processedAt?: Date;
+}
@@ -0,0 +1,38 @@
+export type LlmTask = 'classify' | 'answer';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmJsonSchema {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  // The raw text being analyzed, for providers that don't use the prompt
+  input: string;
+  messages: LlmMessage[];
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+  // Asks for JSON matching this schema, using the provider's native
+  // structured output support
+  responseSchema?: LlmJsonSchema;
+}
+
+export interface LlmResponse {
+  content: string;
+  provider: string;
+  model?: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+export const LLM_PROVIDERS = 'LLM_PROVIDERS';
@@ -0,0 +1,46 @@
+import { LlmTask } from './llm-provider.interface';
+
+export interface LlmTaskConfig {
+  // Providers to try, in failover order
+  providers: string[];
+  // Model per provider name; providers fall back to their own default
+  models: Record<string, string>;
+  temperature: number;
+  maxTokens: number;
+  systemPrompt: string;
+  // `{{input}}` is replaced with the text being analyzed
+  userPrompt: string;
+}
+
+/**
+ * Built-in settings per task. Each can be overridden from the environment,
+ * e.g. LLM_CLASSIFY_PROVIDERS, LLM_CLASSIFY_MODEL_OPENAI,
+ * LLM_CLASSIFY_TEMPERATURE or LLM_CLASSIFY_SYSTEM_PROMPT.
+ */
+export const LLM_TASK_DEFAULTS: Record<LlmTask, LlmTaskConfig> = {
+  classify: {
+    providers: ['openai', 'rule-based'],
+    models: {
+      openai: 'gpt-4o',
+      anthropic: 'claude-3-5-sonnet-latest',
+    },
+    temperature: 0.1,
+    maxTokens: 600,
+    systemPrompt:
+      'You are a token request analyzer. Decide whether the tweet is requesting token creation and, if it is, extract the token name, symbol, and description. Use the intent "question" for a question about the bot, launching or claiming tokens, or the contract address (CA) of a token, and "other" for anything else. Respond with a JSON object containing "intent" ("token_request", "question" or "other"), "confidence" (a number from 0 to 1 for how sure you are of the intent), "name", "symbol", and "description". Example: {"intent": "token_request", "confidence": 0.95, "name": "MyToken", "symbol": "MTK", "description": "A community-driven token for gaming"}. If only name is found, use it for both name and symbol. If no description is provided, set it to null. If the intent is not "token_request" or no valid name/symbol is found, set name, symbol and description to null. Do not include the words "token" or "coin" in either the name or symbol. Also extract any of these the tweet gives for the token agent and socials: "personality", "instructions", "knowledge", "twitter" (handle or link), "telegram" (handle or t.me link) and "website" (URL); set the ones it does not give to null. Example: "personality: sarcastic pirate, tg: t.me/piratecoin" gives {"personality": "sarcastic pirate", "telegram": "t.me/piratecoin"}.',
+    userPrompt: 'Classify this tweet and extract any token details: {{input}}',
+  },
+  answer: {
+    providers: ['openai', 'anthropic'],
+    models: {
+      openai: 'gpt-4o',
+      anthropic: 'claude-3-5-sonnet-latest',
+    },
+    temperature: 0.3,
+    maxTokens: 300,
+    systemPrompt:
+      'You answer questions tweeted at a bot that launches tokens. Answer only from the knowledge base excerpts you are given. Respond with a JSON object containing "answer": a friendly reply of at most 240 characters, in the language of the question, without hashtags or links that are not in the excerpts. If the excerpts do not answer the question, set "answer" to null. Never give financial advice, price predictions or contract addresses.',
+    // `{{input}}` holds the excerpts followed by the question
+    userPrompt: '{{input}}',
+  },
+};
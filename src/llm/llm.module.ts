@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { LLM_PROVIDERS, LlmProvider } from './llm-provider.interface';
+import { LlmService } from './llm.service';
+import { AnthropicProvider } from './providers/anthropic.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { OpenAiProvider } from './providers/openai.provider';
+import { RuleBasedProvider } from './providers/rule-based.provider';
+
+const providerClasses = [
+  OpenAiProvider,
+  AnthropicProvider,
+  OpenAiCompatibleProvider,
+  RuleBasedProvider,
+];
+
+@Module({
+  providers: [
+    ...providerClasses,
+    {
+      provide: LLM_PROVIDERS,
+      inject: providerClasses,
+      useFactory: (...providers: LlmProvider[]) => providers,
+    },
+    LlmService,
+  ],
+  exports: [LlmService],
+})
+export class LlmModule {}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { LlmService } from './llm.service';
+import { LLM_PROVIDERS, LlmProvider } from './llm-provider.interface';
+
+describe('LlmService', () => {
+  let config: Record<string, string>;
+  let primary: jest.Mocked<LlmProvider>;
+  let fallback: jest.Mocked<LlmProvider>;
+  let service: LlmService;
+
+  const provider = (name: string): jest.Mocked<LlmProvider> => ({
+    name,
+    isConfigured: jest.fn().mockReturnValue(true),
+    complete: jest
+      .fn()
+      .mockResolvedValue({ content: `${name} answer`, provider: name }),
+  });
+
+  beforeEach(async () => {
+    config = { LLM_CLASSIFY_PROVIDERS: 'openai, rule-based' };
+    primary = provider('openai');
+    fallback = provider('rule-based');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LlmService,
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+        { provide: LLM_PROVIDERS, useValue: [primary, fallback] },
+      ],
+    }).compile();
+
+    service = module.get<LlmService>(LlmService);
+  });
+
+  it('uses the first provider with the task prompt and model', async () => {
+    const response = await service.complete('classify', 'make $PAL');
+
+    expect(response.provider).toBe('openai');
+    expect(primary.complete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        task: 'classify',
+        input: 'make $PAL',
+        model: 'gpt-4o',
+        messages: [
+          expect.objectContaining({ role: 'system' }),
+          {
+            role: 'user',
+            content:
+              'Classify this tweet and extract any token details: make $PAL',
+          },
+        ],
+      }),
+    );
+  });
+
+  it('fails over to the next provider', async () => {
+    primary.complete.mockRejectedValue(new Error('down'));
+
+    const response = await service.complete('classify', 'make $PAL');
+
+    expect(response.provider).toBe('rule-based');
+  });
+
+  it('skips providers that are not configured', async () => {
+    primary.isConfigured.mockReturnValue(false);
+
+    await service.complete('classify', 'make $PAL');
+
+    expect(primary.complete).not.toHaveBeenCalled();
+  });
+
+  it('applies per-task overrides from config', () => {
+    Object.assign(config, {
+      LLM_CLASSIFY_MODEL_OPENAI: 'gpt-4.1',
+      LLM_CLASSIFY_TEMPERATURE: '0.5',
+      LLM_CLASSIFY_SYSTEM_PROMPT: 'Be terse.',
+    });
+
+    const taskConfig = service.getTaskConfig('classify');
+
+    expect(taskConfig.models.openai).toBe('gpt-4.1');
+    expect(taskConfig.temperature).toBe(0.5);
+    expect(taskConfig.systemPrompt).toBe('Be terse.');
+  });
+});
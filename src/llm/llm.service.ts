@@ -0,0 +1,110 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  LLM_PROVIDERS,
+  LlmJsonSchema,
+  LlmMessage,
+  LlmProvider,
+  LlmResponse,
+  LlmTask,
+} from './llm-provider.interface';
+import { LLM_TASK_DEFAULTS, LlmTaskConfig } from './llm-tasks';
+
+export interface LlmCompleteOptions {
+  responseSchema?: LlmJsonSchema;
+  // Extra turns after the prompt, e.g. a previous answer and a correction
+  followUp?: LlmMessage[];
+}
+
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly providers: Map<string, LlmProvider>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(LLM_PROVIDERS) providers: LlmProvider[],
+  ) {
+    this.providers = new Map(
+      providers.map((provider) => [provider.name, provider]),
+    );
+  }
+
+  /**
+   * Runs a task against each configured provider in turn until one
+   * answers. Throws the last error if every provider fails.
+   */
+  async complete(
+    task: LlmTask,
+    input: string,
+    options: LlmCompleteOptions = {},
+  ): Promise<LlmResponse> {
+    const config = this.getTaskConfig(task);
+    const candidates = config.providers
+      .map((name) => this.providers.get(name))
+      .filter((provider) => provider?.isConfigured());
+
+    if (candidates.length === 0) {
+      throw new Error(`No configured LLM provider for task "${task}"`);
+    }
+
+    let lastError: unknown;
+    for (const provider of candidates) {
+      try {
+        const response = await provider.complete({
+          task,
+          input,
+          messages: [
+            { role: 'system', content: config.systemPrompt },
+            {
+              role: 'user',
+              content: config.userPrompt.replace('{{input}}', input),
+            },
+            ...(options.followUp ?? []),
+          ],
+          responseSchema: options.responseSchema,
+          model: config.models[provider.name],
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+        });
+        return response;
+      } catch (error) {
+        lastError = error;
+        this.logger.warn(
+          `LLM provider ${provider.name} failed for task "${task}": ${error.message ?? error}`,
+        );
+      }
+    }
+    throw lastError;
+  }
+
+  getTaskConfig(task: LlmTask): LlmTaskConfig {
+    const defaults = LLM_TASK_DEFAULTS[task];
+    const prefix = `LLM_${task.toUpperCase()}`;
+    const get = (key: string) => this.configService.get(`${prefix}_${key}`);
+
+    const providers = get('PROVIDERS')
+      ? get('PROVIDERS')
+          .split(',')
+          .map((name: string) => name.trim())
+          .filter(Boolean)
+      : defaults.providers;
+
+    const models = { ...defaults.models };
+    for (const name of this.providers.keys()) {
+      const model = get(`MODEL_${name.toUpperCase().replace(/-/g, '_')}`);
+      if (model) {
+        models[name] = model;
+      }
+    }
+
+    return {
+      providers,
+      models,
+      temperature: parseFloat(get('TEMPERATURE') ?? `${defaults.temperature}`),
+      maxTokens: parseInt(get('MAX_TOKENS') ?? `${defaults.maxTokens}`),
+      systemPrompt: get('SYSTEM_PROMPT') ?? defaults.systemPrompt,
+      userPrompt: get('USER_PROMPT') ?? defaults.userPrompt,
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+} from '../llm-provider.interface';
+
+@Injectable()
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private readonly API_BASE_URL = 'https://api.anthropic.com/v1';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get('ANTHROPIC_API_KEY');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const model = request.model ?? 'claude-3-5-haiku-latest';
+    // The messages API takes the system prompt separately
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const response = await axios.post(
+      `${this.API_BASE_URL}/messages`,
+      {
+        model,
+        system: system || undefined,
+        messages: request.messages.filter(
+          (message) => message.role !== 'system',
+        ),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        // Structured output goes through a forced tool call
+        ...(request.responseSchema
+          ? {
+              tools: [
+                {
+                  name: request.responseSchema.name,
+                  input_schema: request.responseSchema.schema,
+                },
+              ],
+              tool_choice: { type: 'tool', name: request.responseSchema.name },
+            }
+          : {}),
+      },
+      {
+        headers: {
+          'x-api-key': this.configService.get('ANTHROPIC_API_KEY'),
+          'anthropic-version': '2023-06-01',
+        },
+      },
+    );
+
+    const blocks = response.data.content ?? [];
+    const toolUse = blocks.find((block) => block.type === 'tool_use');
+    const content = toolUse
+      ? JSON.stringify(toolUse.input)
+      : blocks
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text)
+          .join('');
+    return { content, provider: this.name, model };
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable } from '@nestjs/common';
+import { OpenAI } from 'openai';
+import { LlmRequest, LlmResponse } from '../llm-provider.interface';
+import { OpenAiProvider } from './openai.provider';
+
+/**
+ * Any server speaking the OpenAI chat completions API, such as Ollama or
+ * llama.cpp, at LLM_LOCAL_BASE_URL.
+ */
+@Injectable()
+export class OpenAiCompatibleProvider extends OpenAiProvider {
+  readonly name = 'local';
+
+  isConfigured(): boolean {
+    return !!this.configService.get('LLM_LOCAL_BASE_URL');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    return super.complete({
+      ...request,
+      model:
+        request.model ??
+        this.configService.get('LLM_LOCAL_MODEL') ??
+        'llama3.1',
+    });
+  }
+
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        baseURL: this.configService.get('LLM_LOCAL_BASE_URL'),
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: this.configService.get('LLM_LOCAL_API_KEY') ?? 'local',
+      });
+    }
+    return this.client;
+  }
+}
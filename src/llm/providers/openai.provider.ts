@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OpenAI } from 'openai';
+import {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+} from '../llm-provider.interface';
+
+@Injectable()
+export class OpenAiProvider implements LlmProvider {
+  readonly name: string = 'openai';
+  protected client: OpenAI | null = null;
+
+  constructor(protected readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get('OPENAI_API_KEY');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const model = request.model ?? 'gpt-4o-mini';
+    const response = await this.getClient().chat.completions.create({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.responseSchema
+        ? {
+            response_format: {
+              type: 'json_schema' as const,
+              json_schema: { ...request.responseSchema, strict: true },
+            },
+          }
+        : {}),
+    });
+    return {
+      content: response.choices[0].message.content ?? '',
+      provider: this.name,
+      model,
+    };
+  }
+
+  // Created on first use so an unconfigured provider never throws at boot
+  protected getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.configService.get('OPENAI_API_KEY'),
+      });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,87 @@
+import { RuleBasedProvider } from './rule-based.provider';
+import { LlmRequest } from '../llm-provider.interface';
+
+describe('RuleBasedProvider', () => {
+  const provider = new RuleBasedProvider();
+  const classify = async (input: string) => {
+    const request: LlmRequest = {
+      task: 'classify',
+      input,
+      messages: [],
+      temperature: 0,
+      maxTokens: 0,
+    };
+    return JSON.parse((await provider.complete(request)).content);
+  };
+
+  it('classifies and extracts a token request', async () => {
+    await expect(
+      classify(
+        '@bot launch a coin called Pal Dog ($PDOG) description: the friendliest dog',
+      ),
+    ).resolves.toEqual({
+      intent: 'token_request',
+      confidence: 0.9,
+      name: 'Pal Dog',
+      symbol: 'PDOG',
+      description: 'the friendliest dog',
+    });
+  });
+
+  it('picks up labelled persona fields', async () => {
+    await expect(
+      classify(
+        '@bot launch a coin called Pirate ($ARR) description: a coin for pirates, personality: sarcastic pirate, tg: t.me/arrcoin, twitter: @arrcoin',
+      ),
+    ).resolves.toEqual({
+      intent: 'token_request',
+      confidence: 0.9,
+      name: 'Pirate',
+      symbol: 'ARR',
+      description: 'a coin for pirates',
+      personality: 'sarcastic pirate',
+      telegram: 't.me/arrcoin',
+      twitter: '@arrcoin',
+    });
+  });
+
+  it('is unsure about a request that names nothing', async () => {
+    await expect(classify('@bot make me a token')).resolves.toMatchObject({
+      intent: 'token_request',
+      confidence: 0.6,
+      name: null,
+      symbol: null,
+    });
+  });
+
+  it('classifies small talk as other', async () => {
+    await expect(classify('@bot gm, how are you?')).resolves.toEqual({
+      intent: 'other',
+      confidence: 0.9,
+      name: null,
+      symbol: null,
+      description: null,
+    });
+  });
+
+  it('classifies questions about tokens', async () => {
+    await expect(
+      classify('@bot how do I claim my token?'),
+    ).resolves.toMatchObject({ intent: 'question', name: null });
+    await expect(
+      classify("@bot what's the CA for $PAL?"),
+    ).resolves.toMatchObject({ intent: 'question', symbol: null });
+  });
+
+  it('only classifies', async () => {
+    await expect(
+      provider.complete({
+        task: 'answer',
+        input: 'how do I claim?',
+        messages: [],
+        temperature: 0,
+        maxTokens: 0,
+      }),
+    ).rejects.toThrow('cannot answer');
+  });
+});
@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import {
+  TokenPersona,
+  TokenPersonaField,
+} from '../../analysis/token-persona.schema';
+import {
+  LlmProvider,
+  LlmRequest,
+  LlmResponse,
+} from '../llm-provider.interface';
+
+const REQUEST_VERB = /\b(create|make|launch|deploy|mint|start)\b/i;
+const TOKEN_NOUN = /\b(token|coin|memecoin)\b/i;
+const CASHTAG = /\$([A-Za-z][A-Za-z0-9]{0,9})\b/;
+const SYMBOL_LABEL =
+  /\b(?:symbol|ticker)\s*[:=]?\s*\$?([A-Za-z][A-Za-z0-9]{0,9})\b/i;
+const NAME_LABEL =
+  /\b(?:called|named|name\s*[:=]?)\s+["']?([A-Za-z0-9][\w .'-]{0,63}?)["']?(?=\s*(?:\(|\$|,|\.|\bwith\b|\bsymbol\b|\bticker\b|$))/i;
+// Questions about the bot and its tokens, as opposed to small talk
+const QUESTION_WORD = /^(?:how|what|where|when|why|which|who)\b/i;
+const QUESTION_TOPIC =
+  /\b(?:tokens?|coins?|claim\w*|ca|contract|address|mint|launch\w*|fees?|wallet|ticker)\b|\$[A-Za-z]/i;
+const DESCRIPTION_LABEL = /\b(?:description|desc|about)\s*[:=]\s*(.+)$/i;
+// Persona values run to the next comma, semicolon or line break
+const PERSONA_LABELS: [TokenPersonaField, string][] = [
+  ['personality', 'personality|persona|vibe'],
+  ['instructions', 'instructions?|rules'],
+  ['knowledge', 'knowledge|lore'],
+  ['twitter', 'twitter|x'],
+  ['telegram', 'telegram|tg'],
+  ['website', 'website|site|web'],
+];
+const personaLabel = (names: string) =>
+  new RegExp(`(?:^|[\\s,;])(?:${names})\\s*[:=]\\s*([^,;\\n]+)`, 'i');
+// Where the first persona field starts, so a description stops before it
+const ANY_PERSONA_LABEL = new RegExp(
+  `[,;]?\\s*\\b(?:${PERSONA_LABELS.map(([, names]) => names).join('|')})\\s*[:=].*$`,
+  'is',
+);
+
+/**
+ * Deterministic keyword matcher used when no model is reachable, and as a
+ * predictable stand-in for tests. It reads the raw tweet, not the prompt.
+ */
+@Injectable()
+export class RuleBasedProvider implements LlmProvider {
+  readonly name = 'rule-based';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    if (request.task !== 'classify') {
+      throw new Error(`The rule-based provider cannot ${request.task}`);
+    }
+    const text = request.input.replace(/@\w+/g, '').trim();
+    return {
+      // Persona fields come from the raw tweet, where @handles are kept
+      content: JSON.stringify({
+        ...this.classify(text.replace(ANY_PERSONA_LABEL, '')),
+        ...this.extractPersona(request.input),
+      }),
+      provider: this.name,
+    };
+  }
+
+  private classify(text: string) {
+    const hasVerb = REQUEST_VERB.test(text);
+    const hasTarget = TOKEN_NOUN.test(text) || CASHTAG.test(text);
+    const details = this.extract(text);
+    const isQuestion = QUESTION_TOPIC.test(text) && QUESTION_WORD.test(text);
+
+    if (isQuestion) {
+      return {
+        intent: 'question',
+        confidence: 0.8,
+        name: null,
+        symbol: null,
+        description: null,
+      };
+    }
+    if (hasVerb && hasTarget) {
+      // Without a name we know what they want but not what to call it
+      return {
+        intent: 'token_request',
+        confidence: details.name ? 0.9 : 0.6,
+        ...details,
+      };
+    }
+    return {
+      intent: 'other',
+      // A verb or a cashtag on its own is a weak signal either way
+      confidence: hasVerb || hasTarget ? 0.5 : 0.9,
+      name: null,
+      symbol: null,
+      description: null,
+    };
+  }
+
+  // Only the fields the tweet gives; the rest are left out
+  private extractPersona(text: string): TokenPersona {
+    const persona: TokenPersona = {};
+    for (const [field, names] of PERSONA_LABELS) {
+      const value = text.match(personaLabel(names))?.[1]?.trim();
+      if (value) {
+        persona[field] = value;
+      }
+    }
+    return persona;
+  }
+
+  private extract(text: string): {
+    name: string | null;
+    symbol: string | null;
+    description: string | null;
+  } {
+    const symbol =
+      text.match(SYMBOL_LABEL)?.[1] ?? text.match(CASHTAG)?.[1] ?? null;
+    const name = text.match(NAME_LABEL)?.[1]?.trim() ?? symbol;
+    const description = text.match(DESCRIPTION_LABEL)?.[1]?.trim() ?? null;
+
+    if (!name) {
+      return { name: null, symbol: null, description: null };
+    }
+    return {
+      name,
+      symbol: (
+        symbol ?? name.replace(/[^A-Za-z0-9]/g, '').slice(0, 10)
+      ).toUpperCase(),
+      description,
+    };
+  }
+}
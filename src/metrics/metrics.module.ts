@@ -0,0 +1,21 @@
+import { Global, Module } from '@nestjs/common';
+import { collectDefaultMetrics, Registry } from 'prom-client';
+import { MetricsController } from './metrics.controller';
+
+// Global so any module can register its metrics on the shared registry
+@Global()
+@Module({
+  providers: [
+    {
+      provide: Registry,
+      useFactory: () => {
+        const registry = new Registry();
+        collectDefaultMetrics({ register: registry });
+        return registry;
+      },
+    },
+  ],
+  controllers: [MetricsController],
+  exports: [Registry],
+})
+export class MetricsModule {}
@@ -0,0 +1,16 @@
+import { LaunchFailureReason } from '../ledger/launch-record.interface';
+import { PermanentJobError } from '../queue/permanent-job.error';
+
+/**
+ * A token request that cannot succeed as sent. The job is dead-lettered and
+ * the user gets the reply for `reason` so they know what to change.
+ */
+export class LaunchFailedError extends PermanentJobError {
+  constructor(
+    readonly reason: LaunchFailureReason,
+    message: string,
+  ) {
+    super(message);
+    this.name = LaunchFailedError.name;
+  }
+}
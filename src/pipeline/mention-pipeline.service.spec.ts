@@ -0,0 +1,1116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MentionPipelineService } from './mention-pipeline.service';
+import { TokenAnalyzerService } from '../analysis/token-analyzer.service';
+import { TokenExtractionError } from '../analysis/token-extraction.error';
+import { AuthorPolicyService } from '../author-policy/author-policy.service';
+import { CoinIdempotencyService } from '../coin/coin-idempotency.service';
+import { CoinService } from '../coin/coin.service';
+import { FollowUpService } from '../follow-up/follow-up.service';
+import { GeneratedImageService } from '../image/generated-image.service';
+import { ImageRejectedError } from '../image/image-rejected.error';
+import { ImageService } from '../image/image.service';
+import { LaunchCardService } from '../image/launch-card.service';
+import { LaunchLedgerService } from '../ledger/launch-ledger.service';
+import { QuestionAnsweringService } from '../qa/question-answering.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { MentionJob } from '../queue/mention-job.interface';
+import { PermanentJobError } from '../queue/permanent-job.error';
+import { QuotaExhaustedError } from '../quota/quota-exhausted.error';
+import { QuotaService } from '../quota/quota.service';
+import { ReplyTemplateService } from '../replies/reply-template.service';
+import { MintConfirmationService } from '../solana/mint-confirmation.service';
+import { TwitterService } from '../twitter/twitter.service';
+import { LaunchFailedError } from './launch-failed.error';
+
+describe('MentionPipelineService', () => {
+  let service: MentionPipelineService;
+  let jobQueue: Record<string, jest.Mock>;
+  let tokenAnalyzer: Record<string, jest.Mock>;
+  let coinService: Record<string, jest.Mock>;
+  let coinIdempotency: Record<string, jest.Mock>;
+  let twitterService: Record<string, jest.Mock>;
+  let replyTemplates: Record<string, jest.Mock>;
+  let launchLedger: Record<string, jest.Mock>;
+  let authorPolicy: Record<string, jest.Mock>;
+  let quota: Record<string, jest.Mock>;
+  let imageService: Record<string, jest.Mock>;
+  let launchCard: Record<string, jest.Mock>;
+  let generatedImages: Record<string, jest.Mock>;
+  let mintConfirmation: Record<string, jest.Mock>;
+  let followUps: Record<string, jest.Mock>;
+  let questionAnswering: Record<string, jest.Mock>;
+  let config: Record<string, string>;
+
+  const job = (overrides: Partial<MentionJob> = {}): MentionJob => ({
+    tweetId: '1',
+    stage: 'ingested',
+    status: 'running',
+    payload: {
+      text: '@bot make a token called Pal ($PAL)',
+      authorId: 'a1',
+      authorUsername: 'alice',
+      imageUrl: 'https://img/1.jpg',
+    },
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jobQueue = {
+      advance: jest.fn(async (current, stage, payload = {}) => ({
+        ...current,
+        stage,
+        payload: { ...current.payload, ...payload },
+      })),
+      complete: jest.fn(),
+      postpone: jest.fn(async (current, delaySeconds, payload = {}) => ({
+        ...current,
+        status: 'pending',
+        payload: { ...current.payload, ...payload },
+      })),
+      fail: jest.fn(),
+      deadLetter: jest.fn(),
+      holdForReview: jest.fn(async (current) => ({
+        ...current,
+        status: 'manual_review',
+      })),
+    };
+    tokenAnalyzer = {
+      classifyMention: jest.fn().mockResolvedValue({
+        intent: 'token_request',
+        confidence: 0.9,
+        details: { name: 'Pal', symbol: 'PAL' },
+      }),
+    };
+    coinService = {
+      createCoin: jest
+        .fn()
+        .mockResolvedValue({ success: true, mintAddress: 'MintHAL' }),
+      supportsIdempotencyKeys: jest.fn().mockReturnValue(false),
+      getTokenUrl: jest
+        .fn()
+        .mockImplementation((mint) => `https://heyhal.xyz/token/${mint}`),
+    };
+    coinIdempotency = {
+      begin: jest
+        .fn()
+        .mockResolvedValue({ state: 'fresh', idempotencyKey: 'key-1' }),
+      markCreated: jest.fn(),
+      markFailed: jest.fn(),
+    };
+    twitterService = {
+      replyToTweet: jest.fn().mockResolvedValue('reply-1'),
+      sendReply: jest.fn().mockResolvedValue({ replyTweetId: 'reply-1' }),
+      uploadMedia: jest.fn().mockResolvedValue('media-1'),
+    };
+    launchLedger = { record: jest.fn(), markProcessed: jest.fn() };
+    authorPolicy = { check: jest.fn().mockResolvedValue({ allowed: true }) };
+    config = {};
+    quota = {
+      tryConsume: jest.fn().mockResolvedValue(true),
+      hasBudget: jest.fn().mockResolvedValue(true),
+      refund: jest.fn(),
+      getSecondsUntilReset: jest.fn().mockResolvedValue(3600),
+    };
+    imageService = {
+      prepare: jest.fn().mockResolvedValue({
+        buffer: Buffer.from('png'),
+        mimeType: 'image/png',
+        sourceFormat: 'jpeg',
+      }),
+    };
+    launchCard = { render: jest.fn().mockResolvedValue(Buffer.from('card')) };
+    generatedImages = {
+      isEnabled: jest.fn().mockReturnValue(false),
+      getOrGenerate: jest.fn().mockResolvedValue({
+        buffer: Buffer.from('generated'),
+        mimeType: 'image/png',
+        sourceFormat: 'png',
+      }),
+    };
+    mintConfirmation = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      waitForMint: jest.fn().mockResolvedValue(true),
+      isConfirmed: jest.fn().mockResolvedValue(true),
+    };
+    followUps = {
+      isOptOut: jest.fn().mockReturnValue(false),
+      optOut: jest.fn(),
+      schedule: jest.fn(),
+    };
+    questionAnswering = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      answer: jest.fn().mockResolvedValue('Open the link in my reply.'),
+    };
+    replyTemplates = {
+      render: jest.fn((key, variables) => `${key} ${variables.mintAddress}`),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MentionPipelineService,
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+        { provide: JobQueueService, useValue: jobQueue },
+        { provide: TokenAnalyzerService, useValue: tokenAnalyzer },
+        { provide: CoinService, useValue: coinService },
+        { provide: CoinIdempotencyService, useValue: coinIdempotency },
+        { provide: TwitterService, useValue: twitterService },
+        { provide: ReplyTemplateService, useValue: replyTemplates },
+        { provide: LaunchLedgerService, useValue: launchLedger },
+        { provide: AuthorPolicyService, useValue: authorPolicy },
+        { provide: QuotaService, useValue: quota },
+        { provide: ImageService, useValue: imageService },
+        { provide: LaunchCardService, useValue: launchCard },
+        { provide: GeneratedImageService, useValue: generatedImages },
+        { provide: MintConfirmationService, useValue: mintConfirmation },
+        { provide: FollowUpService, useValue: followUps },
+        { provide: QuestionAnsweringService, useValue: questionAnswering },
+      ],
+    }).compile();
+
+    service = module.get<MentionPipelineService>(MentionPipelineService);
+    jest
+      .spyOn(service as any, 'downloadImage')
+      .mockResolvedValue(Buffer.from('img'));
+  });
+
+  it('runs a new job through every stage', async () => {
+    await service.runJob(job());
+
+    expect(jobQueue.advance.mock.calls.map(([, stage]) => stage)).toEqual([
+      'classified',
+      'extracted',
+      'coin_created',
+      'mint_confirmed',
+      'replied',
+    ]);
+    expect(twitterService.sendReply).toHaveBeenCalledWith(
+      '1',
+      expect.stringContaining('MintHAL'),
+      'media-1',
+    );
+    expect(jobQueue.complete).toHaveBeenCalled();
+  });
+
+  it('schedules follow-ups in the thread of the success reply', async () => {
+    await service.runJob(job({ payload: { ...job().payload, lang: 'es' } }));
+
+    expect(followUps.schedule).toHaveBeenCalledWith({
+      tweetId: '1',
+      replyTweetId: 'reply-1',
+      authorId: 'a1',
+      mintAddress: 'MintHAL',
+      tokenName: 'Pal',
+      tokenSymbol: 'PAL',
+      lang: 'es',
+    });
+  });
+
+  it('opts the author out of follow-ups without classifying', async () => {
+    followUps.isOptOut.mockReturnValue(true);
+
+    await service.runJob(
+      job({ payload: { ...job().payload, text: '@bot STOP' } }),
+    );
+
+    expect(followUps.optOut).toHaveBeenCalledWith('a1', '1');
+    expect(tokenAnalyzer.classifyMention).not.toHaveBeenCalled();
+    expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+      tweetId: '1',
+      outcome: 'not_a_request',
+    });
+    expect(twitterService.replyToTweet).not.toHaveBeenCalled();
+    expect(twitterService.sendReply).not.toHaveBeenCalled();
+    expect(jobQueue.complete).toHaveBeenCalled();
+  });
+
+  it('passes the persona from the tweet on to the coin', async () => {
+    tokenAnalyzer.classifyMention.mockResolvedValue({
+      intent: 'token_request',
+      confidence: 0.9,
+      details: {
+        name: 'Pal',
+        symbol: 'PAL',
+        persona: { personality: 'sarcastic pirate' },
+      },
+    });
+
+    await service.runJob(job());
+
+    expect(coinService.createCoin).toHaveBeenCalledWith(
+      'Pal',
+      'PAL',
+      expect.anything(),
+      'a1',
+      'alice',
+      undefined,
+      'key-1',
+      { personality: 'sarcastic pirate' },
+    );
+  });
+
+  it('renders replies in the language of the mention', async () => {
+    await service.runJob(
+      job({
+        stage: 'coin_created',
+        payload: { ...job().payload, lang: 'es', mintAddress: 'MintHAL' },
+      }),
+    );
+
+    expect(replyTemplates.render).toHaveBeenCalledWith(
+      'token_created',
+      expect.objectContaining({
+        mintAddress: 'MintHAL',
+        tokenUrl: 'https://heyhal.xyz/token/MintHAL',
+      }),
+      'es',
+    );
+  });
+
+  it('attaches the launch card to the success reply', async () => {
+    await service.runJob(
+      job({
+        stage: 'coin_created',
+        payload: {
+          ...job().payload,
+          tokenName: 'Pal',
+          tokenSymbol: 'PAL',
+          mintAddress: 'MintHAL',
+        },
+      }),
+    );
+
+    expect(imageService.prepare).toHaveBeenCalledWith(expect.any(Buffer), {
+      skipModeration: true,
+    });
+    expect(launchCard.render).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Pal',
+        symbol: 'PAL',
+        mintAddress: 'MintHAL',
+        tokenUrl: 'https://heyhal.xyz/token/MintHAL',
+      }),
+    );
+    expect(twitterService.uploadMedia).toHaveBeenCalledWith(
+      Buffer.from('card'),
+      'image/png',
+    );
+  });
+
+  it('still replies when the launch card cannot be made', async () => {
+    launchCard.render.mockRejectedValue(new Error('no fonts'));
+
+    await service.runJob(
+      job({
+        stage: 'coin_created',
+        payload: { ...job().payload, mintAddress: 'MintHAL' },
+      }),
+    );
+
+    expect(twitterService.sendReply).toHaveBeenCalledWith(
+      '1',
+      expect.any(String),
+      undefined,
+    );
+    expect(jobQueue.complete).toHaveBeenCalled();
+  });
+
+  describe('mentions without an image', () => {
+    const withoutImage = () =>
+      job({ payload: { ...job().payload, imageUrl: undefined } });
+
+    it('asks for an image when generation is off', async () => {
+      await service.runJob(withoutImage());
+
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'missing_image',
+        expect.anything(),
+        undefined,
+      );
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+    });
+
+    it('waits to ask for an image while replies are held back', async () => {
+      twitterService.sendReply.mockResolvedValue({
+        blockedUntil: new Date(Date.now() + 60 * 1000),
+      });
+
+      await service.runJob(withoutImage());
+
+      expect(jobQueue.postpone).toHaveBeenCalled();
+      expect(jobQueue.fail).not.toHaveBeenCalled();
+      expect(launchLedger.markProcessed).not.toHaveBeenCalled();
+    });
+
+    it('asks for an image once the generation quota is used up', async () => {
+      generatedImages.isEnabled.mockReturnValue(true);
+      quota.hasBudget.mockImplementation(
+        async (bucket) => bucket !== 'image_generations',
+      );
+
+      await service.runJob(withoutImage());
+
+      expect(generatedImages.getOrGenerate).not.toHaveBeenCalled();
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'missing_image',
+        expect.anything(),
+        undefined,
+      );
+    });
+
+    it('says which tweet the image was taken from', async () => {
+      replyTemplates.render.mockImplementation((key) => key);
+
+      await service.runJob(
+        job({
+          payload: { ...job().payload, imageSource: 'quoted_tweet' },
+        }),
+      );
+
+      expect(jobQueue.advance).toHaveBeenCalledWith(
+        expect.anything(),
+        'extracted',
+        { imageSource: 'quoted_tweet' },
+      );
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'token_created',
+        expect.objectContaining({ imageNote: 'image_note_quoted_tweet' }),
+        undefined,
+      );
+    });
+
+    it('launches with a generated image and says so', async () => {
+      generatedImages.isEnabled.mockReturnValue(true);
+      replyTemplates.render.mockImplementation((key) => key);
+
+      await service.runJob(withoutImage());
+
+      expect(quota.hasBudget).toHaveBeenCalledWith('image_generations');
+      expect(quota.tryConsume).not.toHaveBeenCalledWith('image_generations');
+      expect(generatedImages.getOrGenerate).toHaveBeenCalledWith('1', {
+        name: 'Pal',
+        symbol: 'PAL',
+        description: undefined,
+      });
+      expect(coinService.createCoin).toHaveBeenCalledWith(
+        'Pal',
+        'PAL',
+        expect.objectContaining({ buffer: Buffer.from('generated') }),
+        'a1',
+        'alice',
+        undefined,
+        'key-1',
+        undefined,
+      );
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'token_created',
+        expect.objectContaining({ imageNote: 'image_note_generated' }),
+        undefined,
+      );
+      expect(launchCard.render).toHaveBeenCalledWith(
+        expect.objectContaining({ image: Buffer.from('generated') }),
+      );
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('waits for the generation quota that ran out meanwhile', async () => {
+      generatedImages.isEnabled.mockReturnValue(true);
+      generatedImages.getOrGenerate.mockRejectedValue(
+        new QuotaExhaustedError('image_generations'),
+      );
+
+      await service.runJob(withoutImage());
+
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+      expect(coinIdempotency.markFailed).toHaveBeenCalledWith('1');
+      expect(quota.refund).toHaveBeenCalledWith('coin_creations');
+      expect(jobQueue.postpone).toHaveBeenCalledWith(expect.anything(), 3600);
+      expect(jobQueue.fail).not.toHaveBeenCalled();
+      expect(jobQueue.complete).not.toHaveBeenCalled();
+    });
+  });
+
+  it('waits for the reply quota instead of failing the reply', async () => {
+    const blockedUntil = new Date(Date.now() + 600 * 1000);
+    twitterService.sendReply.mockResolvedValue({ blockedUntil });
+
+    await service.runJob(
+      job({
+        stage: 'mint_confirmed',
+        payload: { ...job().payload, mintAddress: 'MintHAL' },
+      }),
+    );
+
+    const [, delaySeconds] = jobQueue.postpone.mock.calls[0];
+    expect(delaySeconds).toBeGreaterThan(590);
+    expect(delaySeconds).toBeLessThanOrEqual(600);
+    expect(jobQueue.fail).not.toHaveBeenCalled();
+    expect(launchLedger.markProcessed).not.toHaveBeenCalled();
+  });
+
+  it('resumes from the last completed stage', async () => {
+    await service.runJob(
+      job({
+        stage: 'coin_created',
+        payload: { ...job().payload, mintAddress: 'MintHAL' },
+      }),
+    );
+
+    expect(tokenAnalyzer.classifyMention).not.toHaveBeenCalled();
+    expect(coinService.createCoin).not.toHaveBeenCalled();
+    expect(twitterService.sendReply).toHaveBeenCalledTimes(1);
+  });
+
+  describe('mint confirmation', () => {
+    const minted = (payload = {}) =>
+      job({
+        stage: 'coin_created',
+        payload: { ...job().payload, mintAddress: 'MintHAL', ...payload },
+      });
+
+    it('waits for the mint to show up on chain before replying', async () => {
+      await service.runJob(minted());
+
+      expect(mintConfirmation.waitForMint).toHaveBeenCalledWith('MintHAL');
+      expect(twitterService.sendReply).toHaveBeenCalledTimes(1);
+      expect(launchLedger.record).not.toHaveBeenCalled();
+    });
+
+    it('records a mint that is not on chain yet as pending', async () => {
+      config.MINT_CONFIRMATION_RECHECK_SECONDS = '45';
+      mintConfirmation.waitForMint.mockResolvedValue(false);
+
+      await service.runJob(minted());
+
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+      expect(launchLedger.record).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'mint_pending',
+      });
+      expect(jobQueue.postpone).toHaveBeenCalledWith(
+        expect.objectContaining({ stage: 'coin_created' }),
+        45,
+        { mintPendingSince: expect.any(String) },
+      );
+      expect(jobQueue.complete).not.toHaveBeenCalled();
+    });
+
+    it('announces a pending mint once it confirms', async () => {
+      await service.runJob(
+        minted({ mintPendingSince: new Date().toISOString() }),
+      );
+
+      expect(mintConfirmation.isConfirmed).toHaveBeenCalledWith('MintHAL');
+      expect(mintConfirmation.waitForMint).not.toHaveBeenCalled();
+      expect(launchLedger.record).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'created',
+      });
+      expect(twitterService.sendReply).toHaveBeenCalledWith(
+        '1',
+        expect.stringContaining('MintHAL'),
+        'media-1',
+      );
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('keeps rechecking a pending mint until the deadline', async () => {
+      const pendingSince = new Date(Date.now() - 60_000).toISOString();
+      mintConfirmation.isConfirmed.mockResolvedValue(false);
+
+      await service.runJob(minted({ mintPendingSince: pendingSince }));
+
+      expect(launchLedger.record).not.toHaveBeenCalled();
+      expect(jobQueue.postpone).toHaveBeenCalledWith(expect.anything(), 30, {
+        mintPendingSince: pendingSince,
+      });
+    });
+
+    it('reports the launch as failed once the deadline passes', async () => {
+      config.MINT_CONFIRMATION_DEADLINE_SECONDS = '600';
+      jobQueue.fail.mockResolvedValue('dead_letter');
+      mintConfirmation.isConfirmed.mockResolvedValue(false);
+
+      await service.runJob(
+        minted({
+          mintPendingSince: new Date(Date.now() - 601_000).toISOString(),
+        }),
+      );
+
+      expect(jobQueue.postpone).not.toHaveBeenCalled();
+      expect(jobQueue.fail).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ reason: 'mint_unconfirmed' }),
+      );
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'mint_unconfirmed',
+        expect.anything(),
+        undefined,
+      );
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: 'failed',
+          failureReason: 'mint_unconfirmed',
+        }),
+      );
+    });
+
+    it('skips the check when it is turned off', async () => {
+      mintConfirmation.isEnabled.mockReturnValue(false);
+
+      await service.runJob(minted());
+
+      expect(mintConfirmation.waitForMint).not.toHaveBeenCalled();
+      expect(twitterService.sendReply).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('hands a failing stage back to the queue for retry', async () => {
+    coinService.createCoin.mockResolvedValue({ success: false });
+
+    await service.runJob(job());
+
+    expect(jobQueue.fail).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: 'extracted' }),
+      expect.any(Error),
+    );
+    expect(jobQueue.complete).not.toHaveBeenCalled();
+  });
+
+  it('postpones coin creation until the quota resets', async () => {
+    quota.tryConsume.mockResolvedValue(false);
+
+    await service.runJob(job());
+
+    expect(coinService.createCoin).not.toHaveBeenCalled();
+    expect(jobQueue.postpone).toHaveBeenCalledWith(
+      expect.objectContaining({ stage: 'extracted' }),
+      3600,
+    );
+    expect(jobQueue.complete).not.toHaveBeenCalled();
+    expect(jobQueue.fail).not.toHaveBeenCalled();
+  });
+
+  it('refunds the coin quota when the create definitely failed', async () => {
+    coinService.createCoin.mockResolvedValue({ success: false });
+
+    await service.runJob(job());
+
+    expect(quota.refund).toHaveBeenCalledWith('coin_creations');
+  });
+
+  it('finishes early when the mention is not a token request', async () => {
+    tokenAnalyzer.classifyMention.mockResolvedValue({
+      intent: 'other',
+      confidence: 0.95,
+    });
+
+    await service.runJob(job());
+
+    expect(jobQueue.advance).not.toHaveBeenCalled();
+    expect(jobQueue.complete).toHaveBeenCalled();
+  });
+
+  describe('questions', () => {
+    beforeEach(() => {
+      tokenAnalyzer.classifyMention.mockResolvedValue({
+        intent: 'question',
+        confidence: 0.9,
+      });
+    });
+
+    it('replies with an answer and finishes', async () => {
+      await service.runJob(
+        job({
+          payload: {
+            ...job().payload,
+            text: '@bot how do I claim my token?',
+            lang: 'es',
+          },
+        }),
+      );
+
+      expect(questionAnswering.answer).toHaveBeenCalledWith(
+        '@bot how do I claim my token?',
+        'es',
+      );
+      expect(twitterService.sendReply).toHaveBeenCalledWith(
+        '1',
+        'Open the link in my reply.',
+      );
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'answered',
+        replyTweetId: 'reply-1',
+      });
+      expect(jobQueue.advance.mock.calls.map(([, stage]) => stage)).toEqual([
+        'replied',
+      ]);
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('stays quiet when there is no answer', async () => {
+      questionAnswering.answer.mockResolvedValue(null);
+
+      await service.runJob(job());
+
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'not_a_request',
+      });
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('ignores questions when answering is turned off', async () => {
+      questionAnswering.isEnabled.mockReturnValue(false);
+
+      await service.runJob(job());
+
+      expect(questionAnswering.answer).not.toHaveBeenCalled();
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'not_a_request',
+      });
+    });
+
+    it('does not answer authors the policy turns down', async () => {
+      config.AUTHOR_REJECTION_REPLIES = 'true';
+      authorPolicy.check.mockResolvedValue({
+        allowed: false,
+        reason: 'daily_limit',
+      });
+
+      await service.runJob(job());
+
+      expect(authorPolicy.check).toHaveBeenCalledWith(
+        '1',
+        expect.objectContaining({ id: 'a1' }),
+      );
+      expect(questionAnswering.answer).not.toHaveBeenCalled();
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+      expect(twitterService.replyToTweet).not.toHaveBeenCalled();
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'rejected',
+      });
+    });
+
+    it('keeps the answer while the reply waits for the quota', async () => {
+      twitterService.sendReply.mockResolvedValueOnce({
+        blockedUntil: new Date(Date.now() + 60 * 1000),
+      });
+
+      await service.runJob(job());
+
+      expect(jobQueue.postpone).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(Number),
+        { answerText: 'Open the link in my reply.' },
+      );
+      expect(launchLedger.markProcessed).not.toHaveBeenCalled();
+
+      const postponed = await jobQueue.postpone.mock.results[0].value;
+      await service.runJob({ ...postponed, status: 'running' });
+
+      expect(questionAnswering.answer).toHaveBeenCalledTimes(1);
+      expect(tokenAnalyzer.classifyMention).toHaveBeenCalledTimes(1);
+      expect(twitterService.sendReply).toHaveBeenLastCalledWith(
+        '1',
+        'Open the link in my reply.',
+      );
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'answered' }),
+      );
+    });
+
+    it('gives up without a failure reply when the answer cannot be posted', async () => {
+      twitterService.sendReply.mockResolvedValue({});
+
+      await service.runJob(job());
+
+      expect(twitterService.sendReply).toHaveBeenCalledTimes(1);
+      expect(twitterService.replyToTweet).not.toHaveBeenCalled();
+      expect(jobQueue.fail).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(PermanentJobError),
+      );
+      expect(launchLedger.markProcessed).not.toHaveBeenCalled();
+    });
+  });
+
+  it('holds a low-confidence classification for manual review', async () => {
+    tokenAnalyzer.classifyMention.mockResolvedValue({
+      intent: 'token_request',
+      confidence: 0.4,
+      details: { name: 'Pal', symbol: 'PAL' },
+    });
+
+    await service.runJob(job());
+
+    expect(jobQueue.holdForReview).toHaveBeenCalledWith(
+      expect.objectContaining({ tweetId: '1' }),
+      expect.objectContaining({ confidence: 0.4, tokenSymbol: 'PAL' }),
+    );
+    expect(coinService.createCoin).not.toHaveBeenCalled();
+    expect(jobQueue.complete).not.toHaveBeenCalled();
+  });
+
+  describe('author limits', () => {
+    beforeEach(() => {
+      authorPolicy.check.mockResolvedValue({
+        allowed: false,
+        reason: 'hourly_limit',
+        cooldownUntil: new Date(),
+      });
+    });
+
+    it('stops a rejected request before any work is done', async () => {
+      await service.runJob(job());
+
+      expect(authorPolicy.check).toHaveBeenCalledWith(
+        '1',
+        expect.objectContaining({ id: 'a1', username: 'alice' }),
+      );
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'rejected' }),
+      );
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('replies politely when rejection replies are enabled', async () => {
+      config.AUTHOR_REJECTION_REPLIES = 'true';
+
+      await service.runJob(job());
+
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'rate_limited',
+        expect.anything(),
+        undefined,
+      );
+      expect(twitterService.sendReply).toHaveBeenCalledTimes(1);
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith({
+        tweetId: '1',
+        outcome: 'rejected',
+        replyTweetId: 'reply-1',
+      });
+    });
+
+    it('keeps the rejection while the reply waits for the quota', async () => {
+      config.AUTHOR_REJECTION_REPLIES = 'true';
+      twitterService.sendReply.mockResolvedValueOnce({
+        blockedUntil: new Date(Date.now() + 60 * 1000),
+      });
+
+      await service.runJob(job());
+
+      expect(jobQueue.postpone).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(Number),
+        { rejectionReason: 'hourly_limit' },
+      );
+      expect(launchLedger.markProcessed).not.toHaveBeenCalled();
+
+      const postponed = await jobQueue.postpone.mock.results[0].value;
+      await service.runJob({ ...postponed, status: 'running' });
+
+      expect(authorPolicy.check).toHaveBeenCalledTimes(1);
+      expect(tokenAnalyzer.classifyMention).toHaveBeenCalledTimes(1);
+      expect(twitterService.sendReply).toHaveBeenCalledTimes(2);
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: 'rejected',
+          replyTweetId: 'reply-1',
+        }),
+      );
+    });
+
+    it('never replies to denylisted authors', async () => {
+      config.AUTHOR_REJECTION_REPLIES = 'true';
+      authorPolicy.check.mockResolvedValue({
+        allowed: false,
+        reason: 'denylisted',
+      });
+
+      await service.runJob(job());
+
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('coin idempotency', () => {
+    const extracted = () =>
+      job({
+        stage: 'extracted',
+        payload: { ...job().payload, tokenName: 'Pal', tokenSymbol: 'PAL' },
+      });
+
+    // Keeps coin creation claims across runs, like the table does
+    const trackClaims = () => {
+      let status: 'in_flight' | 'created' | 'failed';
+      coinIdempotency.begin.mockImplementation(async () => {
+        const previous = status;
+        if (!previous || previous === 'failed') {
+          status = 'in_flight';
+        }
+        return {
+          state: !previous || previous === 'failed' ? 'fresh' : previous,
+          idempotencyKey: 'key-1',
+        };
+      });
+      coinIdempotency.markFailed.mockImplementation(async () => {
+        status = 'failed';
+      });
+      coinIdempotency.markCreated.mockImplementation(async () => {
+        status = 'created';
+      });
+    };
+
+    it('records the mint after a successful create', async () => {
+      await service.runJob(extracted());
+
+      expect(coinService.createCoin).toHaveBeenCalledWith(
+        'Pal',
+        'PAL',
+        expect.objectContaining({ mimeType: 'image/png' }),
+        'a1',
+        'alice',
+        undefined,
+        'key-1',
+        undefined,
+      );
+      expect(coinIdempotency.markCreated).toHaveBeenCalledWith('1', 'MintHAL');
+    });
+
+    it('skips straight to the reply when the mint is already known', async () => {
+      coinIdempotency.begin.mockResolvedValue({
+        state: 'created',
+        idempotencyKey: 'key-1',
+        mintAddress: 'MintHAL',
+      });
+
+      await service.runJob(extracted());
+
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+      expect(twitterService.sendReply).toHaveBeenCalledWith(
+        '1',
+        expect.stringContaining('MintHAL'),
+        'media-1',
+      );
+    });
+
+    it('dead-letters an unknown outcome when the API has no idempotency keys', async () => {
+      coinIdempotency.begin.mockResolvedValue({
+        state: 'in_flight',
+        idempotencyKey: 'key-1',
+      });
+
+      await service.runJob(extracted());
+
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+      expect(jobQueue.fail).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(PermanentJobError),
+      );
+    });
+
+    it('resends an unknown outcome under the same key when supported', async () => {
+      coinIdempotency.begin.mockResolvedValue({
+        state: 'in_flight',
+        idempotencyKey: 'key-1',
+      });
+      coinService.supportsIdempotencyKeys.mockReturnValue(true);
+
+      await service.runJob(extracted());
+
+      expect(coinService.createCoin).toHaveBeenCalledTimes(1);
+      expect(coinIdempotency.markCreated).toHaveBeenCalled();
+    });
+
+    it('mints on retry after the image download failed', async () => {
+      trackClaims();
+      (service as any).downloadImage.mockRejectedValueOnce(
+        new Error('Request failed with status code 503'),
+      );
+
+      await service.runJob(extracted());
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+      expect(jobQueue.fail.mock.calls[0][1]).not.toBeInstanceOf(
+        PermanentJobError,
+      );
+
+      await service.runJob(extracted());
+      expect(coinService.createCoin).toHaveBeenCalledTimes(1);
+      expect(coinIdempotency.markCreated).toHaveBeenCalledWith('1', 'MintHAL');
+    });
+
+    it('mints once the coin quota resets', async () => {
+      trackClaims();
+      quota.tryConsume.mockResolvedValueOnce(false);
+
+      await service.runJob(extracted());
+      expect(jobQueue.postpone).toHaveBeenCalledWith(expect.anything(), 3600);
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+
+      await service.runJob(extracted());
+      expect(coinService.createCoin).toHaveBeenCalledTimes(1);
+      expect(jobQueue.complete).toHaveBeenCalled();
+    });
+
+    it('keeps an unknown outcome in flight after a lost response', async () => {
+      coinService.createCoin.mockResolvedValue({
+        success: false,
+        outcomeUnknown: true,
+      });
+
+      await service.runJob(extracted());
+
+      expect(coinIdempotency.markFailed).not.toHaveBeenCalled();
+      expect(jobQueue.fail).toHaveBeenCalled();
+    });
+  });
+
+  describe('failure replies', () => {
+    beforeEach(() => {
+      jobQueue.fail.mockResolvedValue('dead_letter');
+    });
+
+    it('explains an invalid symbol once the job is dead-lettered', async () => {
+      tokenAnalyzer.classifyMention.mockResolvedValue({
+        intent: 'token_request',
+        confidence: 0.9,
+        extractionError: new TokenExtractionError('invalid_symbol'),
+      });
+
+      await service.runJob(job());
+
+      expect(jobQueue.fail).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ reason: 'invalid_symbol' }),
+      );
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'invalid_symbol',
+        expect.anything(),
+        undefined,
+      );
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: 'failed',
+          failureReason: 'invalid_symbol',
+          replyTweetId: 'reply-1',
+        }),
+      );
+    });
+
+    it('maps a coin API rejection to its reason', async () => {
+      coinService.createCoin.mockResolvedValue({
+        success: false,
+        rejection: { reason: 'name_taken', message: 'Name already exists' },
+      });
+
+      await service.runJob(job());
+
+      expect(jobQueue.fail).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(LaunchFailedError),
+      );
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'name_taken',
+        expect.objectContaining({ name: 'Pal', symbol: 'PAL' }),
+        undefined,
+      );
+    });
+
+    it('explains a rejected image without calling the coin API', async () => {
+      imageService.prepare.mockRejectedValue(
+        new ImageRejectedError('dimensions_too_large', '8000x8000'),
+      );
+
+      await service.runJob(job());
+
+      expect(coinService.createCoin).not.toHaveBeenCalled();
+      expect(quota.refund).toHaveBeenCalledWith('coin_creations');
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'image_too_large',
+        expect.anything(),
+        undefined,
+      );
+    });
+
+    it('reports other errors as internal once retries run out', async () => {
+      coinService.createCoin.mockResolvedValue({ success: false });
+
+      await service.runJob(job());
+
+      expect(replyTemplates.render).toHaveBeenCalledWith(
+        'internal_error',
+        expect.anything(),
+        undefined,
+      );
+    });
+
+    it('keeps the reason while the failure reply waits for the quota', async () => {
+      coinService.createCoin.mockResolvedValue({
+        success: false,
+        rejection: { reason: 'name_taken', message: 'Name already exists' },
+      });
+      twitterService.sendReply.mockResolvedValueOnce({
+        blockedUntil: new Date(Date.now() + 60 * 1000),
+      });
+
+      await service.runJob(job());
+
+      expect(jobQueue.postpone).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(Number),
+        { failureReason: 'name_taken' },
+      );
+      expect(launchLedger.markProcessed).not.toHaveBeenCalled();
+
+      const postponed = await jobQueue.postpone.mock.results[0].value;
+      await service.runJob({ ...postponed, status: 'running' });
+
+      expect(coinService.createCoin).toHaveBeenCalledTimes(1);
+      expect(twitterService.sendReply).toHaveBeenCalledTimes(2);
+      expect(launchLedger.markProcessed).toHaveBeenCalledWith(
+        expect.objectContaining({
+          outcome: 'failed',
+          failureReason: 'name_taken',
+          replyTweetId: 'reply-1',
+        }),
+      );
+      expect(jobQueue.deadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({ tweetId: '1' }),
+        { failureReason: undefined },
+      );
+    });
+
+    it('stays quiet while the job will still be retried', async () => {
+      jobQueue.fail.mockResolvedValue('pending');
+      coinService.createCoin.mockResolvedValue({ success: false });
+
+      await service.runJob(job());
+
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+    });
+
+    it('stays quiet when the coin may already exist', async () => {
+      coinIdempotency.begin.mockResolvedValue({
+        state: 'in_flight',
+        idempotencyKey: 'key-1',
+      });
+
+      await service.runJob(job());
+
+      expect(twitterService.sendReply).not.toHaveBeenCalled();
+      expect(launchLedger.markProcessed).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,817 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import axios from 'axios';
+import { TokenAnalyzerService } from '../analysis/token-analyzer.service';
+import { AuthorRejectionReason } from '../author-policy/author-policy.interface';
+import { AuthorPolicyService } from '../author-policy/author-policy.service';
+import {
+  TokenExtractionError,
+  TokenExtractionFailure,
+} from '../analysis/token-extraction.error';
+import {
+  CoinCreationClaim,
+  CoinIdempotencyService,
+} from '../coin/coin-idempotency.service';
+import { CoinService } from '../coin/coin.service';
+import { FollowUpService } from '../follow-up/follow-up.service';
+import {
+  ImageRejectedError,
+  ImageRejectionReason,
+} from '../image/image-rejected.error';
+import { GeneratedImageService } from '../image/generated-image.service';
+import {
+  ImageService,
+  PrepareImageOptions,
+  PreparedImage,
+} from '../image/image.service';
+import { LaunchCardService } from '../image/launch-card.service';
+import { LaunchFailureReason } from '../ledger/launch-record.interface';
+import { LaunchLedgerService } from '../ledger/launch-ledger.service';
+import { QuestionAnsweringService } from '../qa/question-answering.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import {
+  ImageSource,
+  MentionJob,
+  MentionJobPayload,
+} from '../queue/mention-job.interface';
+import { PermanentJobError } from '../queue/permanent-job.error';
+import { QuotaExhaustedError } from '../quota/quota-exhausted.error';
+import { QuotaService } from '../quota/quota.service';
+import {
+  ImageNoteKey,
+  ReplyTemplateKey,
+} from '../replies/reply-template.interface';
+import { ReplyTemplateService } from '../replies/reply-template.service';
+import { MintConfirmationService } from '../solana/mint-confirmation.service';
+import { TwitterService } from '../twitter/twitter.service';
+import { LaunchFailedError } from './launch-failed.error';
+
+const EXTRACTION_FAILURE_REASONS: Record<
+  TokenExtractionFailure,
+  LaunchFailureReason
+> = {
+  no_token_details: 'unparseable_name',
+  invalid_name: 'unparseable_name',
+  malformed_response: 'unparseable_name',
+  invalid_symbol: 'invalid_symbol',
+  invalid_description: 'internal_error',
+};
+
+const IMAGE_FAILURE_REASONS: Record<ImageRejectionReason, LaunchFailureReason> =
+  {
+    too_large: 'image_too_large',
+    dimensions_too_large: 'image_too_large',
+    dimensions_too_small: 'image_too_small',
+    unsupported_format: 'image_unsupported',
+    unreadable: 'image_unsupported',
+    flagged: 'image_flagged',
+  };
+
+// What the success reply says about where the image came from; attached
+// images go without saying
+const IMAGE_NOTES: Partial<Record<ImageSource, ImageNoteKey>> = {
+  quoted_tweet: 'image_note_quoted_tweet',
+  replied_tweet: 'image_note_replied_tweet',
+  avatar: 'image_note_avatar',
+  generated: 'image_note_generated',
+};
+
+// Rejections that get a polite reply. Denylisted authors and authors
+// already cooling down are ignored so the bot can't be baited into replying.
+const REJECTION_TEMPLATES: Partial<
+  Record<AuthorRejectionReason, ReplyTemplateKey>
+> = {
+  account_too_new: 'account_not_eligible',
+  too_few_followers: 'account_not_eligible',
+  hourly_limit: 'rate_limited',
+  daily_limit: 'rate_limited',
+};
+
+/**
+ * Works mention jobs through their stages:
+ * ingested → classified → extracted → coin_created → mint_confirmed →
+ * replied.
+ * Every completed stage is persisted, so a retried or recovered job picks
+ * up where it stopped instead of redoing the expensive calls.
+ */
+@Injectable()
+export class MentionPipelineService {
+  private readonly logger = new Logger(MentionPipelineService.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jobQueue: JobQueueService,
+    private readonly tokenAnalyzer: TokenAnalyzerService,
+    private readonly coinService: CoinService,
+    private readonly coinIdempotency: CoinIdempotencyService,
+    private readonly twitterService: TwitterService,
+    private readonly launchLedger: LaunchLedgerService,
+    private readonly replyTemplates: ReplyTemplateService,
+    private readonly authorPolicy: AuthorPolicyService,
+    private readonly quota: QuotaService,
+    private readonly imageService: ImageService,
+    private readonly launchCard: LaunchCardService,
+    private readonly generatedImages: GeneratedImageService,
+    private readonly mintConfirmation: MintConfirmationService,
+    private readonly followUps: FollowUpService,
+    private readonly questionAnswering: QuestionAnsweringService,
+  ) {}
+
+  @Interval(10000)
+  async processJobs() {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+    try {
+      if (!(await this.twitterService.hasReplyBudget())) {
+        return;
+      }
+      const jobs = await this.jobQueue.claim(this.getConcurrency());
+      await Promise.all(jobs.map((job) => this.runJob(job)));
+    } catch (error) {
+      this.logger.error('Error processing mention jobs:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async runJob(job: MentionJob): Promise<void> {
+    // Given up on already, only the failure reply was held back
+    if (job.payload.failureReason) {
+      return this.sendFailureReply(job, job.payload.failureReason);
+    }
+
+    let current = job;
+    try {
+      while (current.stage !== 'replied') {
+        // Held for review or postponed
+        if (current.status !== 'running') {
+          return;
+        }
+        const next = await this.runStage(current);
+        if (!next) {
+          // The job finished early, e.g. the tweet wasn't a token request
+          break;
+        }
+        current = next;
+      }
+      await this.jobQueue.complete(current);
+    } catch (error) {
+      const status = await this.jobQueue.fail(current, error);
+      if (status === 'dead_letter') {
+        await this.replyWithFailure(current, error);
+      }
+    }
+  }
+
+  private runStage(job: MentionJob): Promise<MentionJob | null> {
+    switch (job.stage) {
+      case 'ingested':
+        return this.classify(job);
+      case 'classified':
+        return this.extract(job);
+      case 'extracted':
+        return this.createCoin(job);
+      case 'coin_created':
+        return this.confirmMint(job);
+      case 'mint_confirmed':
+        return this.reply(job);
+      default:
+        throw new Error(`Unknown job stage: ${job.stage}`);
+    }
+  }
+
+  private async classify(job: MentionJob): Promise<MentionJob | null> {
+    if (this.followUps.isOptOut(job.payload.text)) {
+      await this.followUps.optOut(job.payload.authorId, job.tweetId);
+      await this.launchLedger.markProcessed({
+        tweetId: job.tweetId,
+        outcome: 'not_a_request',
+      });
+      return null;
+    }
+
+    // Answered or rejected already, only the reply was held back
+    if (job.payload.answerText) {
+      return this.answerQuestion(job);
+    }
+    if (job.payload.rejectionReason) {
+      return this.rejectRequest(job, job.payload.rejectionReason);
+    }
+
+    const classification = await this.tokenAnalyzer
+      .classifyMention(job.payload.text)
+      .catch((error) => {
+        // Asking the model again won't change a validation failure
+        throw error instanceof TokenExtractionError
+          ? this.toLaunchFailure(error)
+          : error;
+      });
+    const { intent, confidence, details } = classification;
+
+    if (confidence < this.getConfidenceThreshold()) {
+      this.logger.log(
+        `🤔 Unsure about tweet ${job.tweetId} (${intent}, confidence ${confidence}), holding for review`,
+      );
+      return this.jobQueue.holdForReview(job, {
+        intent,
+        confidence,
+        tokenName: details?.name,
+        tokenSymbol: details?.symbol,
+        tokenDescription: details?.description,
+        tokenPersona: details?.persona,
+      });
+    }
+
+    const answering =
+      intent === 'question' && this.questionAnswering.isEnabled();
+    if (intent !== 'token_request' && !answering) {
+      this.logger.log('📝 Not a token request, marking as processed');
+      await this.launchLedger.markProcessed({
+        tweetId: job.tweetId,
+        outcome: 'not_a_request',
+      });
+      return null;
+    }
+
+    // Questions count towards the same limits, as each answer costs a reply
+    // and a model call
+    const { payload } = job;
+    const verdict = await this.authorPolicy.check(job.tweetId, {
+      id: payload.authorId,
+      username: payload.authorUsername,
+      createdAt: payload.authorCreatedAt,
+      followersCount: payload.authorFollowersCount,
+    });
+    if (!verdict.allowed) {
+      if (answering) {
+        // The rejection replies are about token requests, so skip them
+        await this.launchLedger.markProcessed({
+          tweetId: job.tweetId,
+          outcome: 'rejected',
+        });
+        return null;
+      }
+      return this.rejectRequest(job, verdict.reason);
+    }
+
+    if (answering) {
+      return this.answerQuestion(job);
+    }
+
+    if (classification.extractionError) {
+      throw this.toLaunchFailure(classification.extractionError);
+    }
+
+    return this.jobQueue.advance(job, 'classified', {
+      intent,
+      confidence,
+      tokenName: details.name,
+      tokenSymbol: details.symbol,
+      tokenDescription: details.description,
+      tokenPersona: details.persona,
+    });
+  }
+
+  /**
+   * Replies to a question and finishes the job. Questions that get no
+   * answer are treated like any other mention that isn't a token request.
+   */
+  private async answerQuestion(job: MentionJob): Promise<MentionJob | null> {
+    const replyText =
+      job.payload.answerText ??
+      (await this.questionAnswering.answer(job.payload.text, job.payload.lang));
+    if (!replyText) {
+      await this.launchLedger.markProcessed({
+        tweetId: job.tweetId,
+        outcome: 'not_a_request',
+      });
+      return null;
+    }
+
+    const sent = await this.twitterService.sendReply(job.tweetId, replyText);
+    if (sent.blockedUntil) {
+      return this.postponeReply(job, sent.blockedUntil, {
+        answerText: replyText,
+      });
+    }
+    const { replyTweetId } = sent;
+    if (!replyTweetId) {
+      // Not worth asking the model again for, and a failure reply would
+      // talk about a token nobody asked for
+      throw new PermanentJobError(`Failed to answer tweet ${job.tweetId}`);
+    }
+    await this.launchLedger.markProcessed({
+      tweetId: job.tweetId,
+      outcome: 'answered',
+      replyTweetId,
+    });
+    return this.jobQueue.advance(job, 'replied', {
+      intent: 'question',
+      answerText: undefined,
+      replyTweetId,
+    });
+  }
+
+  private async extract(job: MentionJob): Promise<MentionJob | null> {
+    const { payload } = job;
+    const tokenDetails = {
+      name: payload.tokenName,
+      symbol: payload.tokenSymbol,
+      description: payload.tokenDescription,
+    };
+
+    const detailedLaunch = {
+      tweetId: job.tweetId,
+      tokenName: tokenDetails.name,
+      tokenSymbol: tokenDetails.symbol,
+      tokenDescription: tokenDetails.description || undefined,
+    };
+
+    if (!payload.imageUrl && !(await this.canGenerateImage())) {
+      const replyText = this.replyTemplates.render(
+        'missing_image',
+        {
+          name: tokenDetails.name,
+          symbol: tokenDetails.symbol,
+          username: payload.authorUsername,
+        },
+        payload.lang,
+      );
+      const sent = await this.twitterService.sendReply(job.tweetId, replyText);
+      if (sent.blockedUntil) {
+        return this.postponeReply(job, sent.blockedUntil);
+      }
+      const { replyTweetId } = sent;
+      if (!replyTweetId) {
+        throw new Error('Failed to send missing image reply');
+      }
+      await this.launchLedger.markProcessed({
+        ...detailedLaunch,
+        outcome: 'missing_image',
+        replyTweetId,
+      });
+      return this.jobQueue.advance(job, 'replied', { replyTweetId });
+    }
+
+    await this.launchLedger.record(detailedLaunch);
+    return this.jobQueue.advance(job, 'extracted', {
+      imageSource: payload.imageUrl
+        ? (payload.imageSource ?? 'attached')
+        : 'generated',
+    });
+  }
+
+  private async createCoin(job: MentionJob): Promise<MentionJob> {
+    const { payload } = job;
+    const claim = await this.coinIdempotency.begin(job.tweetId);
+
+    if (claim.state === 'created') {
+      this.logger.log(
+        `Coin for tweet ${job.tweetId} already minted (${claim.mintAddress}), skipping to reply`,
+      );
+      return this.recordMint(job, claim.mintAddress);
+    }
+
+    if (
+      claim.state === 'in_flight' &&
+      !this.coinService.supportsIdempotencyKeys()
+    ) {
+      // Retrying could mint a duplicate; leave it for an operator to check
+      throw new PermanentJobError(
+        `Earlier coin creation for tweet ${job.tweetId} has an unknown outcome`,
+      );
+    }
+
+    if (!(await this.quota.tryConsume('coin_creations'))) {
+      await this.releaseClaim(job, claim);
+      return this.jobQueue.postpone(
+        job,
+        await this.quota.getSecondsUntilReset(),
+      );
+    }
+
+    let image: PreparedImage;
+    try {
+      image = await this.loadTokenImage(job);
+    } catch (error) {
+      // Nothing was sent, so the retry can start over
+      await this.releaseClaim(job, claim);
+      await this.quota.refund('coin_creations');
+      // The generation quota ran out since canGenerateImage checked it
+      if (error instanceof QuotaExhaustedError) {
+        return this.jobQueue.postpone(
+          job,
+          await this.quota.getSecondsUntilReset(),
+        );
+      }
+      throw error instanceof ImageRejectedError
+        ? new LaunchFailedError(
+            IMAGE_FAILURE_REASONS[error.reason],
+            error.message,
+          )
+        : error;
+    }
+
+    const coinResult = await this.coinService.createCoin(
+      payload.tokenName,
+      payload.tokenSymbol,
+      image,
+      payload.authorId,
+      payload.authorUsername,
+      payload.tokenDescription,
+      claim.idempotencyKey,
+      payload.tokenPersona,
+    );
+
+    if (!coinResult.success || !coinResult.mintAddress) {
+      if (!coinResult.outcomeUnknown) {
+        await this.coinIdempotency.markFailed(job.tweetId);
+        await this.quota.refund('coin_creations');
+      }
+      await this.launchLedger.record({
+        tweetId: job.tweetId,
+        imageUrl: payload.imageUrl,
+        outcome: 'api_failure',
+      });
+      if (coinResult.rejection) {
+        throw new LaunchFailedError(
+          coinResult.rejection.reason === 'name_taken'
+            ? 'name_taken'
+            : 'coin_api_rejected',
+          `Coin API rejected the request: ${coinResult.rejection.message}`,
+        );
+      }
+      throw new Error('Coin creation failed');
+    }
+
+    await this.coinIdempotency.markCreated(job.tweetId, coinResult.mintAddress);
+    return this.recordMint(job, coinResult.mintAddress);
+  }
+
+  /**
+   * Settles a claim as failed when this attempt gave up before sending the
+   * create request. A claim left over from an earlier attempt stays in
+   * flight, since that attempt may still have minted.
+   */
+  private async releaseClaim(
+    job: MentionJob,
+    claim: CoinCreationClaim,
+  ): Promise<void> {
+    if (claim.state === 'fresh') {
+      await this.coinIdempotency.markFailed(job.tweetId);
+    }
+  }
+
+  private async recordMint(
+    job: MentionJob,
+    mintAddress: string,
+  ): Promise<MentionJob> {
+    await this.launchLedger.record({
+      tweetId: job.tweetId,
+      imageUrl: job.payload.imageUrl,
+      mintAddress,
+      outcome: 'created',
+    });
+    return this.jobQueue.advance(job, 'coin_created', { mintAddress });
+  }
+
+  /**
+   * Makes sure the mint the launchpad returned is on chain before we say
+   * so. One that doesn't show up within MINT_CONFIRMATION_TIMEOUT_MS is
+   * recorded as pending and rechecked every
+   * MINT_CONFIRMATION_RECHECK_SECONDS; after
+   * MINT_CONFIRMATION_DEADLINE_SECONDS the launch is reported as failed.
+   */
+  private async confirmMint(job: MentionJob): Promise<MentionJob> {
+    const { mintAddress, mintPendingSince } = job.payload;
+    if (!this.mintConfirmation.isEnabled()) {
+      return this.jobQueue.advance(job, 'mint_confirmed');
+    }
+
+    // A recheck looks once instead of tying the worker up polling again
+    const confirmed = mintPendingSince
+      ? await this.mintConfirmation.isConfirmed(mintAddress)
+      : await this.mintConfirmation.waitForMint(mintAddress);
+    if (confirmed) {
+      if (mintPendingSince) {
+        this.logger.log(`✅ Mint ${mintAddress} confirmed on chain`);
+        await this.launchLedger.record({
+          tweetId: job.tweetId,
+          outcome: 'created',
+        });
+      }
+      return this.jobQueue.advance(job, 'mint_confirmed', {
+        mintPendingSince: undefined,
+      });
+    }
+
+    const pendingSince = mintPendingSince ?? new Date().toISOString();
+    const deadline =
+      Date.parse(pendingSince) +
+      this.getMintConfirmationDeadlineSeconds() * 1000;
+    if (Date.now() >= deadline) {
+      throw new LaunchFailedError(
+        'mint_unconfirmed',
+        `Mint ${mintAddress} never showed up on chain`,
+      );
+    }
+    if (!mintPendingSince) {
+      this.logger.warn(
+        `⏳ Mint ${mintAddress} for tweet ${job.tweetId} isn't on chain yet, rechecking`,
+      );
+      await this.launchLedger.record({
+        tweetId: job.tweetId,
+        outcome: 'mint_pending',
+      });
+    }
+    return this.jobQueue.postpone(
+      job,
+      this.getMintConfirmationRecheckSeconds(),
+      { mintPendingSince: pendingSince },
+    );
+  }
+
+  private async reply(job: MentionJob): Promise<MentionJob> {
+    const { tokenName, tokenSymbol, mintAddress } = job.payload;
+    const tokenUrl = this.coinService.getTokenUrl(mintAddress);
+
+    const replyText = this.replyTemplates.render(
+      'token_created',
+      {
+        name: tokenName,
+        symbol: tokenSymbol,
+        mintAddress,
+        tokenUrl,
+        username: job.payload.authorUsername,
+        imageNote: this.renderImageNote(job),
+      },
+      job.payload.lang,
+    );
+    const sent = await this.twitterService.sendReply(
+      job.tweetId,
+      replyText,
+      await this.uploadLaunchCard(job, tokenUrl),
+    );
+    if (sent.blockedUntil) {
+      return this.postponeReply(job, sent.blockedUntil);
+    }
+    const { replyTweetId } = sent;
+    if (!replyTweetId) {
+      throw new Error('Failed to send success reply');
+    }
+
+    await this.launchLedger.markProcessed({
+      tweetId: job.tweetId,
+      replyTweetId,
+    });
+    await this.followUps.schedule({
+      tweetId: job.tweetId,
+      replyTweetId,
+      authorId: job.payload.authorId,
+      mintAddress,
+      tokenName,
+      tokenSymbol,
+      lang: job.payload.lang,
+    });
+    return this.jobQueue.advance(job, 'replied', { replyTweetId });
+  }
+
+  /**
+   * Waits for the reply quota or rate limit that held a reply back, rather
+   * than spending retries on it.
+   */
+  private postponeReply(
+    job: MentionJob,
+    until: Date,
+    payload: Partial<MentionJobPayload> = {},
+  ): Promise<MentionJob> {
+    this.logger.warn(
+      `⏸️ Can't reply to tweet ${job.tweetId} until ${until.toISOString()}, postponing`,
+    );
+    return this.jobQueue.postpone(
+      job,
+      Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000)),
+      payload,
+    );
+  }
+
+  /**
+   * Renders the launch card and uploads it for the success reply. Returns
+   * undefined if that fails, so the reply still goes out, just without it.
+   */
+  private async uploadLaunchCard(
+    job: MentionJob,
+    tokenUrl: string,
+  ): Promise<string | undefined> {
+    if (this.configService.get('LAUNCH_CARD_ENABLED') === 'false') {
+      return undefined;
+    }
+    const { payload } = job;
+    try {
+      // Screened when the coin was created
+      const image = await this.loadTokenImage(job, { skipModeration: true });
+      const card = await this.launchCard.render({
+        image: image.buffer,
+        name: payload.tokenName,
+        symbol: payload.tokenSymbol,
+        mintAddress: payload.mintAddress,
+        tokenUrl,
+      });
+      return await this.twitterService.uploadMedia(card, 'image/png');
+    } catch (error) {
+      this.logger.warn(
+        `Replying to tweet ${job.tweetId} without a launch card: ${error.message}`,
+      );
+      return undefined;
+    }
+  }
+
+  private renderImageNote(job: MentionJob): string | undefined {
+    const key = IMAGE_NOTES[job.payload.imageSource];
+    return key
+      ? this.replyTemplates.render(key, {}, job.payload.lang)
+      : undefined;
+  }
+
+  /**
+   * The token image, normalized: the one the user attached, or the one
+   * generated for the tweet.
+   */
+  private async loadTokenImage(
+    job: MentionJob,
+    options: PrepareImageOptions = {},
+  ): Promise<PreparedImage> {
+    const { payload } = job;
+    if (payload.imageSource === 'generated') {
+      return this.generatedImages.getOrGenerate(job.tweetId, {
+        name: payload.tokenName,
+        symbol: payload.tokenSymbol,
+        description: payload.tokenDescription,
+      });
+    }
+    return this.imageService.prepare(
+      await this.downloadImage(payload.imageUrl),
+      options,
+    );
+  }
+
+  // The quota unit is only taken once the image is generated, so retries
+  // and failed generations don't use it up
+  private async canGenerateImage(): Promise<boolean> {
+    return (
+      this.generatedImages.isEnabled() &&
+      (await this.quota.hasBudget('image_generations'))
+    );
+  }
+
+  private async rejectRequest(
+    job: MentionJob,
+    reason: AuthorRejectionReason,
+  ): Promise<MentionJob | null> {
+    const templateKey = REJECTION_TEMPLATES[reason];
+    let replyTweetId: string | undefined;
+    if (
+      templateKey &&
+      this.configService.get('AUTHOR_REJECTION_REPLIES') === 'true'
+    ) {
+      const sent = await this.twitterService.sendReply(
+        job.tweetId,
+        this.replyTemplates.render(
+          templateKey,
+          { username: job.payload.authorUsername },
+          job.payload.lang,
+        ),
+      );
+      if (sent.blockedUntil) {
+        return this.postponeReply(job, sent.blockedUntil, {
+          rejectionReason: reason,
+        });
+      }
+      replyTweetId = sent.replyTweetId;
+    }
+    await this.launchLedger.markProcessed({
+      tweetId: job.tweetId,
+      outcome: 'rejected',
+      replyTweetId,
+    });
+    return null;
+  }
+
+  /**
+   * Tells the user why their token wasn't created once a job is given up
+   * on, and marks the tweet processed. Jobs that already minted a coin, or
+   * whose coin creation has an unknown outcome, are left to an operator:
+   * the coin may well exist. A mint that never showed up on chain is
+   * reported, since we can't tell the user it launched.
+   */
+  private async replyWithFailure(job: MentionJob, error: unknown) {
+    const reason =
+      error instanceof LaunchFailedError ? error.reason : 'internal_error';
+    if (
+      (job.stage === 'coin_created' && reason !== 'mint_unconfirmed') ||
+      job.stage === 'mint_confirmed' ||
+      (error instanceof PermanentJobError &&
+        !(error instanceof LaunchFailedError))
+    ) {
+      return;
+    }
+
+    await this.sendFailureReply(job, reason);
+  }
+
+  /**
+   * Sends the failure reply and marks the tweet processed. A reply held
+   * back by the quota or rate limit is postponed with its reason; the job
+   * returns to the dead-letter state once it has gone out.
+   */
+  private async sendFailureReply(
+    job: MentionJob,
+    reason: LaunchFailureReason,
+  ): Promise<void> {
+    try {
+      const replyText = this.replyTemplates.render(
+        reason,
+        {
+          name: job.payload.tokenName,
+          symbol: job.payload.tokenSymbol,
+          username: job.payload.authorUsername,
+        },
+        job.payload.lang,
+      );
+      const sent = await this.twitterService.sendReply(job.tweetId, replyText);
+      if (sent.blockedUntil) {
+        await this.postponeReply(job, sent.blockedUntil, {
+          failureReason: reason,
+        });
+        return;
+      }
+      await this.launchLedger.markProcessed({
+        tweetId: job.tweetId,
+        outcome: 'failed',
+        failureReason: reason,
+        replyTweetId: sent.replyTweetId,
+      });
+      this.logger.log(`Told the author of tweet ${job.tweetId}: ${reason}`);
+    } catch (replyError) {
+      this.logger.error(
+        `Error sending failure reply for tweet ${job.tweetId}:`,
+        replyError,
+      );
+    }
+    if (job.payload.failureReason) {
+      await this.jobQueue.deadLetter(job, { failureReason: undefined });
+    }
+  }
+
+  private toLaunchFailure(error: TokenExtractionError): LaunchFailedError {
+    return new LaunchFailedError(
+      EXTRACTION_FAILURE_REASONS[error.reason],
+      error.message,
+    );
+  }
+
+  private async downloadImage(url: string): Promise<Buffer> {
+    try {
+      return await this.imageService.download(url);
+    } catch (error) {
+      this.logger.error('Error downloading image:', error);
+      if (error instanceof ImageRejectedError) {
+        throw error;
+      }
+      // A missing image stays missing; anything else may be transient
+      if (axios.isAxiosError(error) && error.response?.status < 500) {
+        throw new LaunchFailedError(
+          'image_download_failed',
+          `Image download failed with status ${error.response.status}`,
+        );
+      }
+      throw new Error('Failed to download image');
+    }
+  }
+
+  private getConfidenceThreshold(): number {
+    return parseFloat(
+      this.configService.get('CLASSIFIER_CONFIDENCE_THRESHOLD') ?? '0.7',
+    );
+  }
+
+  private getMintConfirmationRecheckSeconds(): number {
+    return parseInt(
+      this.configService.get('MINT_CONFIRMATION_RECHECK_SECONDS') ?? '30',
+    );
+  }
+
+  private getMintConfirmationDeadlineSeconds(): number {
+    return parseInt(
+      this.configService.get('MINT_CONFIRMATION_DEADLINE_SECONDS') ?? '1800',
+    );
+  }
+
+  private getConcurrency(): number {
+    return parseInt(this.configService.get('QUEUE_CONCURRENCY') ?? '5');
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { AnalysisModule } from '../analysis/analysis.module';
+import { AuthorPolicyModule } from '../author-policy/author-policy.module';
+import { CoinModule } from '../coin/coin.module';
+import { FollowUpModule } from '../follow-up/follow-up.module';
+import { ImageModule } from '../image/image.module';
+import { LaunchLedgerModule } from '../ledger/launch-ledger.module';
+import { QaModule } from '../qa/qa.module';
+import { QueueModule } from '../queue/queue.module';
+import { QuotaModule } from '../quota/quota.module';
+import { RepliesModule } from '../replies/replies.module';
+import { SolanaModule } from '../solana/solana.module';
+import { TwitterModule } from '../twitter/twitter.module';
+import { MentionPipelineService } from './mention-pipeline.service';
+
+@Module({
+  imports: [
+    AnalysisModule,
+    AuthorPolicyModule,
+    CoinModule,
+    FollowUpModule,
+    ImageModule,
+    LaunchLedgerModule,
+    QaModule,
+    QueueModule,
+    QuotaModule,
+    RepliesModule,
+    SolanaModule,
+    TwitterModule,
+  ],
+  providers: [MentionPipelineService],
+})
+export class PipelineModule {}
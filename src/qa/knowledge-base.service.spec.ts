@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KnowledgeBaseService } from './knowledge-base.service';
+
+describe('KnowledgeBaseService', () => {
+  const shippedDirectory = path.join(__dirname, '../../knowledge');
+  let tempDirectory: string;
+
+  const createService = (directory: string) =>
+    new KnowledgeBaseService({
+      get: (key: string) =>
+        key === 'KNOWLEDGE_BASE_DIR' ? directory : undefined,
+    } as ConfigService);
+
+  beforeEach(() => {
+    tempDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'knowledge-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDirectory, { recursive: true, force: true });
+  });
+
+  it('splits files at headings and keeps the heading path', async () => {
+    fs.writeFileSync(
+      path.join(tempDirectory, 'faq.md'),
+      'Intro text\n\n# Fees\n\n## Who pays the launch fee?\n\nThe bot does.\n\n## Are there trading fees?\n\nYes, 1%.\n',
+    );
+    fs.writeFileSync(path.join(tempDirectory, 'notes.txt'), 'launch fee');
+    const service = createService(tempDirectory);
+    await service.load();
+
+    expect(service.search('who pays the launch fee', 5)).toEqual([
+      {
+        source: 'faq.md',
+        title: 'Fees › Who pays the launch fee?',
+        text: 'The bot does.',
+      },
+    ]);
+    expect(service.search('intro', 5)).toEqual([
+      { source: 'faq.md', title: '', text: 'Intro text' },
+    ]);
+  });
+
+  it('finds nothing for a question it has no words in common with', async () => {
+    fs.writeFileSync(
+      path.join(tempDirectory, 'faq.md'),
+      '# Claiming\n\nOpen the token page.',
+    );
+    const service = createService(tempDirectory);
+    await service.load();
+
+    expect(service.search('gm, how are you?', 3)).toEqual([]);
+  });
+
+  it('starts empty when the directory is missing', async () => {
+    const service = createService(path.join(tempDirectory, 'missing'));
+    await service.load();
+
+    expect(service.search('claim my token', 3)).toEqual([]);
+  });
+
+  it('answers common questions from the shipped knowledge base', async () => {
+    const service = createService(shippedDirectory);
+    await service.load();
+
+    expect(service.search('how do I claim my token?', 1)[0].title).toBe(
+      'After the launch › How do I claim my token?',
+    );
+    expect(service.search('what ticker can I use', 1)[0].title).toBe(
+      'Launching a token › What makes a valid ticker?',
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export interface KnowledgeSection {
+  // File the section came from, relative to the knowledge base directory
+  source: string;
+  // The headings above the section, outermost first
+  title: string;
+  text: string;
+}
+
+interface IndexedSection extends KnowledgeSection {
+  terms: Map<string, number>;
+  length: number;
+}
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by can do does for from had has have how i ' +
+    'if in is it its me my of on or so that the their then there this to ' +
+    'was we what when where which who why will with you your'
+  ).split(' '),
+);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => term.length > 1 && !STOPWORDS.has(term),
+  );
+}
+
+// One section per heading; text before the first heading is its own section
+function splitSections(source: string, markdown: string): KnowledgeSection[] {
+  const sections: KnowledgeSection[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      sections.push({ source, title: headings.join(' › '), text });
+    }
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      headings.length = heading[1].length - 1;
+      headings[heading[1].length - 1] = heading[2];
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+  return sections;
+}
+
+/**
+ * FAQ markdown files from KNOWLEDGE_BASE_DIR, split at headings and ranked
+ * against a question with BM25. Small enough to keep in memory and
+ * re-index on every start.
+ */
+@Injectable()
+export class KnowledgeBaseService implements OnModuleInit {
+  private readonly logger = new Logger(KnowledgeBaseService.name);
+  private sections: IndexedSection[] = [];
+  // Sections each term appears in
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit() {
+    await this.load();
+  }
+
+  async load(): Promise<void> {
+    const directory = this.getDirectory();
+    let files: string[];
+    try {
+      files = (await fs.readdir(directory))
+        .filter((file) => file.endsWith('.md'))
+        .sort();
+    } catch (error) {
+      this.logger.warn(`No knowledge base at ${directory}: ${error.message}`);
+      files = [];
+    }
+
+    const sections: IndexedSection[] = [];
+    for (const file of files) {
+      const markdown = await fs.readFile(path.join(directory, file), 'utf-8');
+      for (const section of splitSections(file, markdown)) {
+        // Headings count towards matching, since they are often the question
+        const terms = tokenize(`${section.title} ${section.text}`);
+        const counts = new Map<string, number>();
+        for (const term of terms) {
+          counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+        sections.push({ ...section, terms: counts, length: terms.length });
+      }
+    }
+
+    const documentFrequency = new Map<string, number>();
+    for (const section of sections) {
+      for (const term of section.terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+
+    this.sections = sections;
+    this.documentFrequency = documentFrequency;
+    this.averageLength =
+      sections.reduce((total, section) => total + section.length, 0) /
+      (sections.length || 1);
+    this.logger.log(
+      `Loaded ${sections.length} knowledge base sections from ${files.length} files`,
+    );
+  }
+
+  /** The sections that best match `query`, best first. */
+  search(query: string, limit: number): KnowledgeSection[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const total = this.sections.length;
+
+    return this.sections
+      .map((section) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = section.terms.get(term);
+          if (!frequency) {
+            continue;
+          }
+          const documents = this.documentFrequency.get(term);
+          const idf = Math.log(
+            1 + (total - documents + 0.5) / (documents + 0.5),
+          );
+          score +=
+            (idf * frequency * (K1 + 1)) /
+            (frequency +
+              K1 * (1 - B + (B * section.length) / this.averageLength));
+        }
+        return { section, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ section: { source, title, text } }) => ({ source, title, text }));
+  }
+
+  private getDirectory(): string {
+    return (
+      this.configService.get('KNOWLEDGE_BASE_DIR') ??
+      path.join(process.cwd(), 'knowledge')
+    );
+  }
+}
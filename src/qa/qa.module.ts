@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CoinModule } from '../coin/coin.module';
+import { LaunchLedgerModule } from '../ledger/launch-ledger.module';
+import { LlmModule } from '../llm/llm.module';
+import { RepliesModule } from '../replies/replies.module';
+import { KnowledgeBaseService } from './knowledge-base.service';
+import { QuestionAnsweringService } from './question-answering.service';
+
+@Module({
+  imports: [CoinModule, LaunchLedgerModule, LlmModule, RepliesModule],
+  providers: [KnowledgeBaseService, QuestionAnsweringService],
+  exports: [QuestionAnsweringService],
+})
+export class QaModule {}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CoinService } from '../coin/coin.service';
+import { LaunchLedgerService } from '../ledger/launch-ledger.service';
+import { LlmService } from '../llm/llm.service';
+import { ReplyTemplateService } from '../replies/reply-template.service';
+import { KnowledgeBaseService } from './knowledge-base.service';
+import { QuestionAnsweringService } from './question-answering.service';
+
+describe('QuestionAnsweringService', () => {
+  let service: QuestionAnsweringService;
+  let llmService: { complete: jest.Mock };
+  let knowledgeBase: { search: jest.Mock };
+  let launchLedger: { findCreatedToken: jest.Mock };
+  let replyTemplates: { render: jest.Mock };
+
+  const reply = (answer: string | null) => ({
+    content: JSON.stringify({ answer }),
+    provider: 'openai',
+  });
+
+  beforeEach(async () => {
+    llmService = {
+      complete: jest
+        .fn()
+        .mockResolvedValue(reply('Open the link in my reply to claim it.')),
+    };
+    knowledgeBase = {
+      search: jest.fn().mockReturnValue([
+        {
+          source: 'after-launch.md',
+          title: 'After the launch › How do I claim my token?',
+          text: 'Open the link in the bot reply.',
+        },
+      ]),
+    };
+    launchLedger = { findCreatedToken: jest.fn().mockResolvedValue(null) };
+    replyTemplates = {
+      render: jest.fn(
+        (key, variables) => `${key} ${JSON.stringify(variables)}`,
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionAnsweringService,
+        { provide: ConfigService, useValue: { get: () => undefined } },
+        { provide: LlmService, useValue: llmService },
+        { provide: KnowledgeBaseService, useValue: knowledgeBase },
+        { provide: LaunchLedgerService, useValue: launchLedger },
+        {
+          provide: CoinService,
+          useValue: {
+            getTokenUrl: (mint: string) => `https://heyhal.xyz/token/${mint}`,
+          },
+        },
+        { provide: ReplyTemplateService, useValue: replyTemplates },
+      ],
+    }).compile();
+
+    service = module.get<QuestionAnsweringService>(QuestionAnsweringService);
+  });
+
+  it('answers from the best matching knowledge base sections', async () => {
+    await expect(service.answer('@bot how do I claim my token?')).resolves.toBe(
+      'Open the link in my reply to claim it.',
+    );
+
+    expect(knowledgeBase.search).toHaveBeenCalledWith(
+      'how do I claim my token?',
+      3,
+    );
+    const [task, input, options] = llmService.complete.mock.calls[0];
+    expect(task).toBe('answer');
+    expect(input).toContain(
+      '## After the launch › How do I claim my token?\nOpen the link in the bot reply.',
+    );
+    expect(input).toMatch(/Question: how do I claim my token\?$/);
+    expect(options.responseSchema.name).toBe('question_answer');
+  });
+
+  it('stays quiet when the knowledge base has nothing on it', async () => {
+    knowledgeBase.search.mockReturnValue([]);
+
+    await expect(service.answer('@bot who won the game?')).resolves.toBeNull();
+    expect(llmService.complete).not.toHaveBeenCalled();
+  });
+
+  it('stays quiet when the model has no answer or fails', async () => {
+    llmService.complete.mockResolvedValueOnce(reply(null));
+    await expect(service.answer('@bot how do fees work?')).resolves.toBeNull();
+
+    llmService.complete.mockRejectedValueOnce(new Error('timeout'));
+    await expect(service.answer('@bot how do fees work?')).resolves.toBeNull();
+  });
+
+  it('cuts an answer that would not fit in a tweet', async () => {
+    llmService.complete.mockResolvedValue(reply('word '.repeat(100).trim()));
+
+    const answer = await service.answer('@bot how do fees work?');
+
+    expect(answer.length).toBeLessThanOrEqual(280);
+    expect(answer).toMatch(/word…$/);
+  });
+
+  it('gives the CA of a token the bot launched', async () => {
+    launchLedger.findCreatedToken.mockResolvedValue({
+      tweetId: 't1',
+      tokenName: 'Pal',
+      tokenSymbol: 'PAL',
+      mintAddress: 'MintPAL',
+    });
+
+    await service.answer("@bot what's the CA for $pal?", 'es');
+
+    expect(launchLedger.findCreatedToken).toHaveBeenCalledWith('pal');
+    expect(replyTemplates.render).toHaveBeenCalledWith(
+      'qa_contract_address',
+      {
+        name: 'Pal',
+        symbol: 'PAL',
+        mintAddress: 'MintPAL',
+        tokenUrl: 'https://heyhal.xyz/token/MintPAL',
+      },
+      'es',
+    );
+    expect(llmService.complete).not.toHaveBeenCalled();
+  });
+
+  it('looks a token up by name', async () => {
+    await service.answer('@bot contract address for Moon Cat?');
+
+    expect(launchLedger.findCreatedToken).toHaveBeenCalledWith('Moon Cat');
+    expect(replyTemplates.render).toHaveBeenCalledWith(
+      'qa_token_unknown',
+      { name: 'Moon Cat' },
+      undefined,
+    );
+  });
+
+  it('leaves address questions without a token to the knowledge base', async () => {
+    await service.answer('@bot where do I find the contract address?');
+
+    expect(launchLedger.findCreatedToken).not.toHaveBeenCalled();
+    expect(llmService.complete).toHaveBeenCalled();
+  });
+});
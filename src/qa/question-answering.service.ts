@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TOKEN_NAME_MAX_LENGTH } from '../analysis/token-details.schema';
+import { CoinService } from '../coin/coin.service';
+import { LaunchLedgerService } from '../ledger/launch-ledger.service';
+import { LlmService } from '../llm/llm.service';
+import { ReplyTemplateService } from '../replies/reply-template.service';
+import { MAX_TWEET_LENGTH, tweetLength } from '../replies/twitter-text';
+import { KnowledgeBaseService } from './knowledge-base.service';
+
+const ANSWER_JSON_SCHEMA = {
+  name: 'question_answer',
+  schema: {
+    type: 'object',
+    properties: {
+      answer: {
+        type: ['string', 'null'],
+        description:
+          'The reply to the question, or null if the excerpts do not answer it',
+      },
+    },
+    required: ['answer'],
+    additionalProperties: false,
+  },
+};
+
+// "what's the CA for $PAL?", "contract address for Moon Cat?"
+const ADDRESS_QUESTION =
+  /\b(?:ca|contract(?:\s+address)?|mint\s+address|token\s+address)\b/i;
+const CASHTAG = /\$([A-Za-z][A-Za-z0-9]{0,9})\b/;
+const FOR_NAME = /\bfor\s+([^?!.\n]+?)\s*[?!.]*$/i;
+
+/**
+ * Answers questions tweeted at the bot. Contract address questions are
+ * answered from the tokens the bot has launched; anything else from the
+ * FAQ knowledge base, with the LLM writing the reply from the best
+ * matching sections. Turned on with QA_ENABLED.
+ */
+@Injectable()
+export class QuestionAnsweringService {
+  private readonly logger = new Logger(QuestionAnsweringService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly llmService: LlmService,
+    private readonly knowledgeBase: KnowledgeBaseService,
+    private readonly launchLedger: LaunchLedgerService,
+    private readonly coinService: CoinService,
+    private readonly replyTemplates: ReplyTemplateService,
+  ) {}
+
+  isEnabled(): boolean {
+    return this.configService.get('QA_ENABLED') === 'true';
+  }
+
+  /**
+   * The reply to a question, or null when there is nothing worth saying:
+   * the knowledge base doesn't cover it, or the model couldn't be reached.
+   */
+  async answer(tweetText: string, language?: string): Promise<string | null> {
+    const question = tweetText.replace(/@\w+/g, '').trim();
+    const token = this.parseAddressQuestion(question);
+    if (token) {
+      return this.answerAddressQuestion(token, language);
+    }
+    return this.answerFromKnowledgeBase(question);
+  }
+
+  // The symbol or name an address question asks about
+  private parseAddressQuestion(question: string): string | null {
+    if (!ADDRESS_QUESTION.test(question)) {
+      return null;
+    }
+    const token =
+      question.match(CASHTAG)?.[1] ??
+      question.match(FOR_NAME)?.[1]?.replace(/^\$/, '');
+    return token ? token.slice(0, TOKEN_NAME_MAX_LENGTH) : null;
+  }
+
+  private async answerAddressQuestion(
+    token: string,
+    language?: string,
+  ): Promise<string> {
+    const launch = await this.launchLedger.findCreatedToken(token);
+    if (!launch) {
+      this.logger.log(
+        `❓ Asked for the CA of ${token}, which we didn't launch`,
+      );
+      return this.replyTemplates.render(
+        'qa_token_unknown',
+        { name: token },
+        language,
+      );
+    }
+    return this.replyTemplates.render(
+      'qa_contract_address',
+      {
+        name: launch.tokenName,
+        symbol: launch.tokenSymbol,
+        mintAddress: launch.mintAddress,
+        tokenUrl: this.coinService.getTokenUrl(launch.mintAddress),
+      },
+      language,
+    );
+  }
+
+  private async answerFromKnowledgeBase(
+    question: string,
+  ): Promise<string | null> {
+    const sections = this.knowledgeBase.search(
+      question,
+      parseInt(this.configService.get('QA_RETRIEVAL_LIMIT') ?? '3'),
+    );
+    if (sections.length === 0) {
+      this.logger.log(`❓ Nothing in the knowledge base for: ${question}`);
+      return null;
+    }
+
+    const excerpts = sections
+      .map((section) => `## ${section.title}\n${section.text}`)
+      .join('\n\n');
+    let answer: unknown;
+    try {
+      const response = await this.llmService.complete(
+        'answer',
+        `Knowledge base excerpts:\n\n${excerpts}\n\nQuestion: ${question}`,
+        { responseSchema: ANSWER_JSON_SCHEMA },
+      );
+      answer = JSON.parse(
+        response.content.replace(/```(?:json)?\n?/g, '').trim(),
+      )?.answer;
+    } catch (error) {
+      this.logger.warn(`Could not answer "${question}": ${error.message}`);
+      return null;
+    }
+
+    if (typeof answer !== 'string' || !answer.trim()) {
+      return null;
+    }
+    return this.fitTweet(answer.trim());
+  }
+
+  // Cuts an overlong answer at a word boundary
+  private fitTweet(text: string): string {
+    if (tweetLength(text) <= MAX_TWEET_LENGTH) {
+      return text;
+    }
+    const words = text.split(/\s+/);
+    while (
+      words.length > 1 &&
+      tweetLength(`${words.join(' ')}…`) > MAX_TWEET_LENGTH
+    ) {
+      words.pop();
+    }
+    return `${words.join(' ')}…`;
+  }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JobQueueService } from './job-queue.service';
+import { PG_POOL } from '../database/database.constants';
+import { MentionJob } from './mention-job.interface';
+import { PermanentJobError } from './permanent-job.error';
+
+describe('JobQueueService', () => {
+  let service: JobQueueService;
+  let pool: { query: jest.Mock };
+
+  const job = (attempts: number): MentionJob => ({
+    tweetId: '1',
+    stage: 'extracted',
+    status: 'running',
+    payload: { text: '', authorId: 'a1', authorUsername: 'alice' },
+    attempts,
+    nextAttemptAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  beforeEach(async () => {
+    pool = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 1 }) };
+    const config: Record<string, string> = {
+      QUEUE_RETRY_BASE_SECONDS: '10',
+      QUEUE_MAX_ATTEMPTS: '3',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        { provide: PG_POOL, useValue: pool },
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<JobQueueService>(JobQueueService);
+  });
+
+  it('backs off exponentially between attempts', () => {
+    expect(service.getBackoffSeconds(1)).toBe(10);
+    expect(service.getBackoffSeconds(2)).toBe(20);
+    expect(service.getBackoffSeconds(3)).toBe(40);
+    expect(service.getBackoffSeconds(20)).toBe(3600);
+  });
+
+  it('schedules a retry while attempts remain', async () => {
+    await expect(service.fail(job(0), new Error('boom'))).resolves.toBe(
+      'pending',
+    );
+    expect(pool.query.mock.calls[0][1]).toEqual([
+      '1',
+      'pending',
+      1,
+      'boom',
+      10,
+    ]);
+  });
+
+  it('dead-letters a job that keeps failing', async () => {
+    await expect(service.fail(job(2), new Error('boom'))).resolves.toBe(
+      'dead_letter',
+    );
+  });
+
+  it('dead-letters a permanent error on the first attempt', async () => {
+    await expect(
+      service.fail(job(0), new PermanentJobError('no retry')),
+    ).resolves.toBe('dead_letter');
+  });
+
+  it('keeps the payload it is given when postponing', async () => {
+    const postponed = await service.postpone(job(1), 30, {
+      mintAddress: 'Mint1',
+    });
+
+    expect(postponed).toMatchObject({
+      status: 'pending',
+      payload: { authorId: 'a1', mintAddress: 'Mint1' },
+    });
+    expect(JSON.parse(pool.query.mock.calls[0][1][2])).toEqual(
+      postponed.payload,
+    );
+  });
+
+  it('drops cleared payload keys when dead-lettering', async () => {
+    const waiting = job(1);
+    waiting.payload.failureReason = 'name_taken';
+
+    const deadLettered = await service.deadLetter(waiting, {
+      failureReason: undefined,
+    });
+
+    expect(deadLettered.status).toBe('dead_letter');
+    expect(JSON.parse(pool.query.mock.calls[0][1][1])).toEqual({
+      text: '',
+      authorId: 'a1',
+      authorUsername: 'alice',
+    });
+  });
+
+  it('drops what the stages filled in when starting a job over', async () => {
+    await service.reset('1', 'ingested');
+
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain('payload - $4::text[]');
+    expect(params[3]).toEqual(
+      expect.arrayContaining(['tokenName', 'mintAddress', 'replyTweetId']),
+    );
+    expect(params[3]).not.toContain('imageUrl');
+  });
+
+  it('keeps the stage payload when retrying from the stage reached', async () => {
+    await service.reset('1');
+
+    expect(pool.query.mock.calls[0][1][3]).toEqual(['failureReason']);
+  });
+
+  it('does not reset a running job', async () => {
+    pool.query.mockResolvedValue({ rows: [], rowCount: 0 });
+
+    await expect(service.reset('1', 'ingested')).resolves.toBe(false);
+    expect(pool.query.mock.calls[0][0]).toContain("status <> 'running'");
+  });
+});
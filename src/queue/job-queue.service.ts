@@ -0,0 +1,281 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Pool } from 'pg';
+import { hostname } from 'os';
+import { PG_POOL } from '../database/database.constants';
+import {
+  JobStage,
+  JobStatus,
+  MentionJob,
+  MentionJobPayload,
+  STAGE_PAYLOAD_KEYS,
+} from './mention-job.interface';
+import { PermanentJobError } from './permanent-job.error';
+
+const MAX_BACKOFF_SECONDS = 60 * 60;
+
+@Injectable()
+export class JobQueueService {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly workerId = `${hostname()}:${process.pid}`;
+
+  constructor(
+    @Inject(PG_POOL) private readonly pool: Pool,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Adds a mention to the queue. Returns false if the tweet was already
+   * queued, so re-polling the same mention is harmless.
+   */
+  async enqueue(tweetId: string, payload: MentionJobPayload): Promise<boolean> {
+    const result = await this.pool.query(
+      `INSERT INTO mention_jobs (tweet_id, payload) VALUES ($1, $2)
+       ON CONFLICT (tweet_id) DO NOTHING`,
+      [tweetId, JSON.stringify(payload)],
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Locks up to `limit` due jobs for this worker. Jobs left `running` by a
+   * worker that died are picked up again once their lock times out.
+   */
+  async claim(limit: number): Promise<MentionJob[]> {
+    const result = await this.pool.query(
+      `UPDATE mention_jobs
+       SET status = 'running', locked_at = NOW(), locked_by = $2, updated_at = NOW()
+       WHERE tweet_id IN (
+         SELECT tweet_id FROM mention_jobs
+         WHERE (status = 'pending' AND next_attempt_at <= NOW())
+            OR (status = 'running' AND locked_at < NOW() - make_interval(secs => $3))
+         ORDER BY next_attempt_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [limit, this.workerId, this.getLockTimeoutSeconds()],
+    );
+    return result.rows.map((row) => this.toJob(row));
+  }
+
+  /**
+   * Records that a job finished `stage`, merging `payload` into what the
+   * job already carries. The job stays locked while the worker continues.
+   */
+  async advance(
+    job: MentionJob,
+    stage: JobStage,
+    payload: Partial<MentionJobPayload> = {},
+  ): Promise<MentionJob> {
+    const merged = { ...job.payload, ...payload };
+    await this.pool.query(
+      `UPDATE mention_jobs
+       SET stage = $2, payload = $3, attempts = 0, last_error = NULL,
+           locked_at = NOW(), updated_at = NOW()
+       WHERE tweet_id = $1`,
+      [job.tweetId, stage, JSON.stringify(merged)],
+    );
+    return {
+      ...job,
+      stage,
+      payload: merged,
+      attempts: 0,
+      lastError: undefined,
+    };
+  }
+
+  /**
+   * Parks a job for an operator. It keeps its stage and is not claimed
+   * again until reset.
+   */
+  async holdForReview(
+    job: MentionJob,
+    payload: Partial<MentionJobPayload> = {},
+  ): Promise<MentionJob> {
+    const merged = { ...job.payload, ...payload };
+    await this.pool.query(
+      `UPDATE mention_jobs
+       SET status = 'manual_review', payload = $2,
+           locked_at = NULL, locked_by = NULL, updated_at = NOW()
+       WHERE tweet_id = $1`,
+      [job.tweetId, JSON.stringify(merged)],
+    );
+    this.logger.log(`Job ${job.tweetId} held for manual review`);
+    return { ...job, status: 'manual_review', payload: merged };
+  }
+
+  /**
+   * Puts a job back in the queue until `delaySeconds` from now without
+   * counting an attempt, for waits that aren't the job's fault, like a
+   * used-up daily quota. `payload` is merged in as with advance.
+   */
+  async postpone(
+    job: MentionJob,
+    delaySeconds: number,
+    payload: Partial<MentionJobPayload> = {},
+  ): Promise<MentionJob> {
+    const merged = { ...job.payload, ...payload };
+    await this.pool.query(
+      `UPDATE mention_jobs
+       SET status = 'pending', next_attempt_at = NOW() + make_interval(secs => $2),
+           payload = $3, locked_at = NULL, locked_by = NULL, updated_at = NOW()
+       WHERE tweet_id = $1`,
+      [job.tweetId, delaySeconds, JSON.stringify(merged)],
+    );
+    this.logger.log(`Job ${job.tweetId} postponed for ${delaySeconds}s`);
+    return { ...job, status: 'pending', payload: merged };
+  }
+
+  async complete(job: MentionJob): Promise<void> {
+    await this.setStatus(job.tweetId, 'done');
+  }
+
+  /**
+   * Moves a job back to the dead-letter state, e.g. once a failure reply
+   * that was postponed has gone out. `payload` is merged in as with advance.
+   */
+  async deadLetter(
+    job: MentionJob,
+    payload: Partial<MentionJobPayload> = {},
+  ): Promise<MentionJob> {
+    const merged = { ...job.payload, ...payload };
+    await this.pool.query(
+      `UPDATE mention_jobs
+       SET status = 'dead_letter', payload = $2,
+           locked_at = NULL, locked_by = NULL, updated_at = NOW()
+       WHERE tweet_id = $1`,
+      [job.tweetId, JSON.stringify(merged)],
+    );
+    return { ...job, status: 'dead_letter', payload: merged };
+  }
+
+  /**
+   * Schedules a retry with exponential backoff, or moves the job to the
+   * dead-letter state once it has used up its attempts or the error is a
+   * PermanentJobError.
+   */
+  async fail(job: MentionJob, error: unknown): Promise<JobStatus> {
+    const attempts = job.attempts + 1;
+    const message = error instanceof Error ? error.message : String(error);
+    const status: JobStatus =
+      error instanceof PermanentJobError || attempts >= this.getMaxAttempts()
+        ? 'dead_letter'
+        : 'pending';
+    const delaySeconds = this.getBackoffSeconds(attempts);
+
+    await this.pool.query(
+      `UPDATE mention_jobs
+       SET status = $2, attempts = $3, last_error = $4,
+           next_attempt_at = NOW() + make_interval(secs => $5),
+           locked_at = NULL, locked_by = NULL, updated_at = NOW()
+       WHERE tweet_id = $1`,
+      [job.tweetId, status, attempts, message, delaySeconds],
+    );
+
+    if (status === 'dead_letter') {
+      this.logger.error(
+        `Job ${job.tweetId} moved to dead letter at stage ${job.stage} after ${attempts} attempts: ${message}`,
+      );
+    } else {
+      this.logger.warn(
+        `Job ${job.tweetId} failed at stage ${job.stage} (attempt ${attempts}), retrying in ${delaySeconds}s: ${message}`,
+      );
+    }
+    return status;
+  }
+
+  async find(tweetId: string): Promise<MentionJob | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM mention_jobs WHERE tweet_id = $1',
+      [tweetId],
+    );
+    return result.rows[0] ? this.toJob(result.rows[0]) : null;
+  }
+
+  async findByTweetIds(tweetIds: string[]): Promise<MentionJob[]> {
+    if (tweetIds.length === 0) {
+      return [];
+    }
+    const result = await this.pool.query(
+      'SELECT * FROM mention_jobs WHERE tweet_id = ANY($1)',
+      [tweetIds],
+    );
+    return result.rows.map((row) => this.toJob(row));
+  }
+
+  async findByStatus(status: JobStatus, limit = 50): Promise<MentionJob[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM mention_jobs WHERE status = $1
+       ORDER BY created_at DESC LIMIT $2`,
+      [status, limit],
+    );
+    return result.rows.map((row) => this.toJob(row));
+  }
+
+  /**
+   * Makes a job due again, optionally moving it to another stage and
+   * merging `payload` into it. Moving it back to ingested drops what the
+   * stages filled in; a failure reply still waiting to go out is always
+   * dropped, as the job gets another go. Returns false if there is no job
+   * for the tweet or it is running, as its worker would overwrite the reset.
+   */
+  async reset(
+    tweetId: string,
+    stage?: JobStage,
+    payload?: Partial<MentionJobPayload>,
+  ): Promise<boolean> {
+    const droppedKeys =
+      stage === 'ingested' ? STAGE_PAYLOAD_KEYS : ['failureReason'];
+    const result = await this.pool.query(
+      `UPDATE mention_jobs
+       SET stage = COALESCE($2, stage), payload = (payload - $4::text[]) || $3::jsonb,
+           status = 'pending', attempts = 0,
+           next_attempt_at = NOW(), last_error = NULL,
+           locked_at = NULL, locked_by = NULL, updated_at = NOW()
+       WHERE tweet_id = $1 AND status <> 'running'`,
+      [tweetId, stage ?? null, JSON.stringify(payload ?? {}), droppedKeys],
+    );
+    return result.rowCount > 0;
+  }
+
+  getBackoffSeconds(attempts: number): number {
+    const base = parseInt(
+      this.configService.get('QUEUE_RETRY_BASE_SECONDS') ?? '30',
+    );
+    return Math.min(base * 2 ** (attempts - 1), MAX_BACKOFF_SECONDS);
+  }
+
+  private async setStatus(tweetId: string, status: JobStatus): Promise<void> {
+    await this.pool.query(
+      `UPDATE mention_jobs
+       SET status = $2, locked_at = NULL, locked_by = NULL, updated_at = NOW()
+       WHERE tweet_id = $1`,
+      [tweetId, status],
+    );
+  }
+
+  private getMaxAttempts(): number {
+    return parseInt(this.configService.get('QUEUE_MAX_ATTEMPTS') ?? '5');
+  }
+
+  private getLockTimeoutSeconds(): number {
+    return parseInt(
+      this.configService.get('QUEUE_LOCK_TIMEOUT_SECONDS') ?? '300',
+    );
+  }
+
+  private toJob(row: Record<string, any>): MentionJob {
+    return {
+      tweetId: row.tweet_id,
+      stage: row.stage,
+      status: row.status,
+      payload: row.payload,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { TokenPersona } from '../analysis/token-persona.schema';
+import { AuthorRejectionReason } from '../author-policy/author-policy.interface';
+import { LaunchFailureReason } from '../ledger/launch-record.interface';
+
+/**
+ * Stages a mention moves through, in order. A job's `stage` is the last
+ * stage it completed; the worker resumes from there.
+ */
+export const JOB_STAGES = [
+  'ingested',
+  'classified',
+  'extracted',
+  'coin_created',
+  'mint_confirmed',
+  'replied',
+] as const;
+
+export type JobStage = (typeof JOB_STAGES)[number];
+
+export type JobStatus =
+  | 'pending'
+  | 'running'
+  | 'done'
+  | 'dead_letter'
+  // Parked until an operator approves or rejects it
+  | 'manual_review';
+
+// Where the token image comes from
+export type ImageSource =
+  | 'attached'
+  | 'quoted_tweet'
+  | 'replied_tweet'
+  | 'avatar'
+  | 'generated';
+
+export interface MentionJobPayload {
+  text: string;
+  authorId: string;
+  authorUsername: string;
+  // Author profile at ingestion, for the per-author request checks
+  authorCreatedAt?: string;
+  authorFollowersCount?: number;
+  // Tweet language as reported by Twitter, used to pick reply templates
+  lang?: string;
+  imageUrl?: string;
+  // Unset on jobs from before images could be generated, meaning attached
+  imageSource?: ImageSource;
+  intent?: string;
+  confidence?: number;
+  tokenName?: string;
+  tokenSymbol?: string;
+  tokenDescription?: string;
+  // Agent persona and socials from the tweet; defaults fill in the rest
+  tokenPersona?: TokenPersona;
+  mintAddress?: string;
+  // When the mint was first found missing on chain; set while it's rechecked
+  mintPendingSince?: string;
+  // A question's answer, kept while the reply waits for the quota
+  answerText?: string;
+  // Why the author was turned away, kept while the rejection reply waits
+  rejectionReason?: AuthorRejectionReason;
+  // Why a dead-lettered job failed, kept while the failure reply waits
+  failureReason?: LaunchFailureReason;
+  replyTweetId?: string;
+}
+
+// Filled in by the stages, so dropped when a job starts over from ingested.
+// The image fields come from the tweet and are kept.
+export const STAGE_PAYLOAD_KEYS: (keyof MentionJobPayload)[] = [
+  'intent',
+  'confidence',
+  'tokenName',
+  'tokenSymbol',
+  'tokenDescription',
+  'tokenPersona',
+  'mintAddress',
+  'mintPendingSince',
+  'answerText',
+  'rejectionReason',
+  'failureReason',
+  'replyTweetId',
+];
+
+export interface MentionJob {
+  tweetId: string;
+  stage: JobStage;
+  status: JobStatus;
+  payload: MentionJobPayload;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
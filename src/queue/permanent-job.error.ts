@@ -0,0 +1,10 @@
+/**
+ * Thrown from a pipeline stage when retrying cannot help. The queue moves
+ * the job straight to the dead-letter state instead of backing off.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = PermanentJobError.name;
+  }
+}
@@ -0,0 +1,12 @@
+import { QuotaBucket } from './quota.service';
+
+/**
+ * Thrown when a quota bucket is used up partway through a job. The job can
+ * wait for the daily reset rather than spend its retries.
+ */
+export class QuotaExhaustedError extends Error {
+  constructor(readonly bucket: QuotaBucket) {
+    super(`Daily ${bucket} quota used up`);
+    this.name = QuotaExhaustedError.name;
+  }
+}
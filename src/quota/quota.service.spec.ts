@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PG_POOL } from '../database/database.constants';
+import { QuotaService } from './quota.service';
+
+describe('QuotaService', () => {
+  let service: QuotaService;
+  let pool: { query: jest.Mock };
+  let config: Record<string, string>;
+
+  beforeEach(async () => {
+    pool = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 1 }) };
+    config = { QUOTA_TIMEZONE: 'America/New_York', QUOTA_REPLIES_PER_DAY: '3' };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuotaService,
+        { provide: PG_POOL, useValue: pool },
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+      ],
+    }).compile();
+
+    service = module.get<QuotaService>(QuotaService);
+  });
+
+  it('takes a unit under the limit for the configured timezone', async () => {
+    await expect(service.tryConsume('replies')).resolves.toBe(true);
+    expect(pool.query).toHaveBeenCalledWith(
+      expect.stringContaining('WHERE quota_usage.used < $2'),
+      ['replies', 3, 'America/New_York'],
+    );
+  });
+
+  it('reports a used-up budget when the guarded update matches nothing', async () => {
+    pool.query.mockResolvedValue({ rows: [], rowCount: 0 });
+
+    await expect(service.tryConsume('replies')).resolves.toBe(false);
+  });
+
+  it('never hands out units from a zero budget', async () => {
+    config.QUOTA_MEDIA_UPLOADS_PER_DAY = '0';
+
+    await expect(service.tryConsume('media_uploads')).resolves.toBe(false);
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('reports usage for every bucket, defaulting to zero', async () => {
+    pool.query.mockResolvedValue({ rows: [{ bucket: 'replies', used: 3 }] });
+
+    await expect(service.getUsage()).resolves.toEqual([
+      { bucket: 'replies', used: 3, limit: 3 },
+      { bucket: 'coin_creations', used: 0, limit: 100 },
+      { bucket: 'media_uploads', used: 0, limit: 100 },
+      { bucket: 'image_generations', used: 0, limit: 100 },
+    ]);
+    await expect(service.hasBudget('replies')).resolves.toBe(false);
+  });
+});
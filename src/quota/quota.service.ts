@@ -0,0 +1,118 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Pool } from 'pg';
+import { PG_POOL } from '../database/database.constants';
+
+export type QuotaBucket =
+  | 'replies'
+  | 'coin_creations'
+  | 'media_uploads'
+  | 'image_generations';
+
+export const QUOTA_BUCKETS: QuotaBucket[] = [
+  'replies',
+  'coin_creations',
+  'media_uploads',
+  'image_generations',
+];
+
+const LIMIT_KEYS: Record<QuotaBucket, string> = {
+  replies: 'QUOTA_REPLIES_PER_DAY',
+  coin_creations: 'QUOTA_COIN_CREATIONS_PER_DAY',
+  media_uploads: 'QUOTA_MEDIA_UPLOADS_PER_DAY',
+  image_generations: 'QUOTA_IMAGE_GENERATIONS_PER_DAY',
+};
+
+export interface QuotaUsage {
+  bucket: QuotaBucket;
+  used: number;
+  limit: number;
+}
+
+/**
+ * Daily budgets shared by every replica. Counters live in Postgres, one row
+ * per bucket and day, where the day starts at midnight in QUOTA_TIMEZONE.
+ * Units are taken before the action they pay for, so two replicas racing
+ * for the last unit can't both get it.
+ */
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+
+  constructor(
+    @Inject(PG_POOL) private readonly pool: Pool,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Takes one unit from today's budget. Returns false, taking nothing, if
+   * the budget is used up.
+   */
+  async tryConsume(bucket: QuotaBucket): Promise<boolean> {
+    const limit = this.getLimit(bucket);
+    if (limit <= 0) {
+      return false;
+    }
+    const result = await this.pool.query(
+      `INSERT INTO quota_usage (bucket, period, used)
+       VALUES ($1, (NOW() AT TIME ZONE $3)::date, 1)
+       ON CONFLICT (bucket, period) DO UPDATE
+       SET used = quota_usage.used + 1, updated_at = NOW()
+       WHERE quota_usage.used < $2
+       RETURNING used`,
+      [bucket, limit, this.getTimezone()],
+    );
+    if (result.rowCount === 0) {
+      this.logger.warn(`Daily ${bucket} quota of ${limit} reached`);
+      return false;
+    }
+    return true;
+  }
+
+  /** Gives back a unit whose action never happened. */
+  async refund(bucket: QuotaBucket): Promise<void> {
+    await this.pool.query(
+      `UPDATE quota_usage SET used = GREATEST(used - 1, 0), updated_at = NOW()
+       WHERE bucket = $1 AND period = (NOW() AT TIME ZONE $2)::date`,
+      [bucket, this.getTimezone()],
+    );
+  }
+
+  async hasBudget(bucket: QuotaBucket): Promise<boolean> {
+    const usage = await this.getUsage();
+    const { used, limit } = usage.find((u) => u.bucket === bucket);
+    return used < limit;
+  }
+
+  async getUsage(): Promise<QuotaUsage[]> {
+    const result = await this.pool.query(
+      `SELECT bucket, used FROM quota_usage
+       WHERE period = (NOW() AT TIME ZONE $1)::date`,
+      [this.getTimezone()],
+    );
+    return QUOTA_BUCKETS.map((bucket) => ({
+      bucket,
+      used: result.rows.find((row) => row.bucket === bucket)?.used ?? 0,
+      limit: this.getLimit(bucket),
+    }));
+  }
+
+  /** Seconds until the next midnight in QUOTA_TIMEZONE. */
+  async getSecondsUntilReset(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT EXTRACT(EPOCH FROM (
+         (date_trunc('day', NOW() AT TIME ZONE $1) + INTERVAL '1 day') AT TIME ZONE $1
+       ) - NOW()) AS seconds`,
+      [this.getTimezone()],
+    );
+    return Math.ceil(parseFloat(result.rows[0].seconds));
+  }
+
+  getTimezone(): string {
+    return this.configService.get('QUOTA_TIMEZONE') ?? 'UTC';
+  }
+
+  private getLimit(bucket: QuotaBucket): number {
+    return parseInt(this.configService.get(LIMIT_KEYS[bucket]) ?? '100');
+  }
+}
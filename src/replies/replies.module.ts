@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { ReplyTemplateService } from './reply-template.service';
+
+@Module({
+  providers: [ReplyTemplateService],
+  exports: [ReplyTemplateService],
+})
+export class RepliesModule {}
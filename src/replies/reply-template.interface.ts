@@ -0,0 +1,91 @@
+import {
+  TOKEN_NAME_MAX_LENGTH,
+  TOKEN_SYMBOL_MAX_LENGTH,
+} from '../analysis/token-details.schema';
+import {
+  LAUNCH_FAILURE_REASONS,
+  LaunchFailureReason,
+} from '../ledger/launch-record.interface';
+
+/**
+ * Short lines filled into `{{imageNote}}` on the success reply, saying
+ * where the token image came from when the user didn't attach it.
+ */
+export type ImageNoteKey =
+  | 'image_note_quoted_tweet'
+  | 'image_note_replied_tweet'
+  | 'image_note_avatar'
+  | 'image_note_generated';
+
+export const IMAGE_NOTE_KEYS: ImageNoteKey[] = [
+  'image_note_quoted_tweet',
+  'image_note_replied_tweet',
+  'image_note_avatar',
+  'image_note_generated',
+];
+
+export const IMAGE_NOTE_MAX_LENGTH = 60;
+
+// Bounds on what the follow-up reply fills in, so its templates can be
+// checked against the tweet limit
+export const FOLLOW_UP_STATS_MAX_LENGTH = 90;
+export const FOLLOW_UP_ELAPSED_MAX_LENGTH = 4;
+export const OPT_OUT_KEYWORD_MAX_LENGTH = 20;
+
+export type ReplyTemplateKey =
+  | 'token_created'
+  | 'missing_image'
+  | 'rate_limited'
+  | 'account_not_eligible'
+  | 'follow_up_stats'
+  | 'qa_contract_address'
+  | 'qa_token_unknown'
+  | LaunchFailureReason
+  | ImageNoteKey;
+
+export const REPLY_TEMPLATE_KEYS: ReplyTemplateKey[] = [
+  'token_created',
+  'missing_image',
+  'rate_limited',
+  'account_not_eligible',
+  'follow_up_stats',
+  'qa_contract_address',
+  'qa_token_unknown',
+  ...LAUNCH_FAILURE_REASONS,
+  ...IMAGE_NOTE_KEYS,
+];
+
+export interface ReplyVariables {
+  name?: string;
+  symbol?: string;
+  mintAddress?: string;
+  tokenUrl?: string;
+  username?: string;
+  imageNote?: string;
+  // Follow-ups only: the stats lines, time since launch, opt-out keyword
+  stats?: string;
+  elapsed?: string;
+  optOutKeyword?: string;
+}
+
+/**
+ * The longest value each variable can take, used to check at load time
+ * that every template fits in a tweet once rendered.
+ */
+export const WORST_CASE_VARIABLES: Required<ReplyVariables> = {
+  // Names may be CJK, which Twitter counts as two characters each
+  name: '漢'.repeat(TOKEN_NAME_MAX_LENGTH),
+  symbol: 'W'.repeat(TOKEN_SYMBOL_MAX_LENGTH),
+  // Base58 Solana addresses are at most 44 characters
+  mintAddress: 'W'.repeat(44),
+  tokenUrl: 'https://example.com/token',
+  username: 'W'.repeat(15),
+  // Leading space so it isn't counted as part of a URL right before it
+  imageNote: ' ' + 'W'.repeat(IMAGE_NOTE_MAX_LENGTH - 1),
+  stats: 'W'.repeat(FOLLOW_UP_STATS_MAX_LENGTH),
+  elapsed: 'W'.repeat(FOLLOW_UP_ELAPSED_MAX_LENGTH),
+  optOutKeyword: 'W'.repeat(OPT_OUT_KEYWORD_MAX_LENGTH),
+};
+
+// language code → template key → variants
+export type ReplyTemplateSet = Partial<Record<ReplyTemplateKey, string[]>>;
@@ -0,0 +1,124 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { REPLY_TEMPLATE_KEYS } from './reply-template.interface';
+import { ReplyTemplateService } from './reply-template.service';
+
+describe('ReplyTemplateService', () => {
+  const shippedDirectory = path.join(__dirname, '../../templates/replies');
+  let tempDirectory: string;
+
+  const createService = (directory: string) =>
+    new ReplyTemplateService({
+      get: (key: string) =>
+        key === 'REPLY_TEMPLATES_DIR' ? directory : undefined,
+    } as ConfigService);
+
+  // Every template the default language must provide, with a placeholder text
+  const required = Object.fromEntries(
+    REPLY_TEMPLATE_KEYS.map((key) => [key, [`${key} text`]]),
+  );
+
+  const writeTemplates = (language: string, templates: object) =>
+    fs.writeFileSync(
+      path.join(tempDirectory, `${language}.json`),
+      JSON.stringify(templates),
+    );
+
+  beforeEach(() => {
+    tempDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'replies-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDirectory, { recursive: true, force: true });
+  });
+
+  it('loads the shipped templates', async () => {
+    await expect(createService(shippedDirectory).load()).resolves.toBe(
+      undefined,
+    );
+  });
+
+  it('renders variables into the chosen language', async () => {
+    writeTemplates('en', {
+      ...required,
+      token_created: ['{{name}} is live: {{tokenUrl}}'],
+    });
+    writeTemplates('es', { token_created: ['¡{{name}} ya está aquí!'] });
+    const service = createService(tempDirectory);
+    await service.load();
+
+    expect(service.render('token_created', { name: 'Pal' }, 'es')).toBe(
+      '¡Pal ya está aquí!',
+    );
+  });
+
+  it('falls back to the default language', async () => {
+    writeTemplates('en', {
+      ...required,
+      token_created: ['{{name}} is live'],
+      missing_image: ['Add an image'],
+    });
+    writeTemplates('es', { token_created: ['¡{{name}} ya está aquí!'] });
+    const service = createService(tempDirectory);
+    await service.load();
+
+    expect(service.render('missing_image', {}, 'es')).toBe('Add an image');
+    expect(service.render('token_created', { name: 'Pal' }, 'fr')).toBe(
+      'Pal is live',
+    );
+  });
+
+  it('rejects unknown variables', async () => {
+    writeTemplates('en', {
+      ...required,
+      token_created: ['{{name}} by {{creator}}'],
+    });
+
+    await expect(createService(tempDirectory).load()).rejects.toThrow(
+      'uses unknown variables: creator',
+    );
+  });
+
+  it('rejects templates that can exceed a tweet', async () => {
+    writeTemplates('en', {
+      ...required,
+      token_created: [`{{name}} ${'x'.repeat(260)}`],
+    });
+
+    await expect(createService(tempDirectory).load()).rejects.toThrow(
+      'over the 280 limit',
+    );
+  });
+
+  it('allows for token names that count double', async () => {
+    writeTemplates('en', {
+      ...required,
+      token_created: [`{{name}} ${'x'.repeat(220)}`],
+    });
+
+    await expect(createService(tempDirectory).load()).rejects.toThrow(
+      'over the 280 limit',
+    );
+  });
+
+  it('keeps image notes short enough to fit the success reply', async () => {
+    writeTemplates('en', {
+      ...required,
+      image_note_generated: [`\n\n${'x'.repeat(60)}`],
+    });
+
+    await expect(createService(tempDirectory).load()).rejects.toThrow(
+      'over the 60 limit',
+    );
+  });
+
+  it('requires every template in the default language', async () => {
+    writeTemplates('en', { ...required, missing_image: undefined });
+
+    await expect(createService(tempDirectory).load()).rejects.toThrow(
+      'missing template "missing_image"',
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  IMAGE_NOTE_KEYS,
+  IMAGE_NOTE_MAX_LENGTH,
+  ImageNoteKey,
+  REPLY_TEMPLATE_KEYS,
+  ReplyTemplateKey,
+  ReplyTemplateSet,
+  ReplyVariables,
+  WORST_CASE_VARIABLES,
+} from './reply-template.interface';
+import { MAX_TWEET_LENGTH, tweetLength } from './twitter-text';
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Reply texts loaded from `<REPLY_TEMPLATES_DIR>/<lang>.json`. Each key
+ * holds one or more variants; one is picked at random per reply so the bot
+ * doesn't post the same sentence over and over.
+ */
+@Injectable()
+export class ReplyTemplateService implements OnModuleInit {
+  private readonly logger = new Logger(ReplyTemplateService.name);
+  private templates = new Map<string, ReplyTemplateSet>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit() {
+    await this.load();
+  }
+
+  /**
+   * Reads and validates every template file. Throws, failing startup, if a
+   * template uses an unknown variable or could render past 280 characters.
+   */
+  async load(): Promise<void> {
+    const directory = this.getTemplatesDirectory();
+    const files = (await fs.readdir(directory)).filter((file) =>
+      file.endsWith('.json'),
+    );
+
+    const templates = new Map<string, ReplyTemplateSet>();
+    const errors: string[] = [];
+    for (const file of files) {
+      const language = path.basename(file, '.json');
+      const set: ReplyTemplateSet = JSON.parse(
+        await fs.readFile(path.join(directory, file), 'utf-8'),
+      );
+      for (const [key, variants] of Object.entries(set)) {
+        if (!REPLY_TEMPLATE_KEYS.includes(key as ReplyTemplateKey)) {
+          errors.push(`${file}: unknown template "${key}"`);
+          continue;
+        }
+        if (!Array.isArray(variants) || variants.length === 0) {
+          errors.push(`${file}: "${key}" must be a non-empty array`);
+          continue;
+        }
+        variants.forEach((variant, index) =>
+          errors.push(
+            ...this.validate(variant, this.getMaxLength(key)).map(
+              (error) => `${file}: ${key}[${index}] ${error}`,
+            ),
+          ),
+        );
+      }
+      templates.set(language, set);
+    }
+
+    const defaults = templates.get(this.getDefaultLanguage());
+    for (const key of REPLY_TEMPLATE_KEYS) {
+      if (!defaults?.[key]) {
+        errors.push(
+          `${this.getDefaultLanguage()}.json: missing template "${key}"`,
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid reply templates:\n${errors.join('\n')}`);
+    }
+    this.templates = templates;
+    this.logger.log(
+      `Loaded reply templates for: ${[...templates.keys()].join(', ')}`,
+    );
+  }
+
+  /**
+   * Renders a random variant of `key` in the tweet's language, falling back
+   * to the default language when there is no translation.
+   */
+  render(
+    key: ReplyTemplateKey,
+    variables: ReplyVariables,
+    language?: string,
+  ): string {
+    const defaultLanguage = this.getDefaultLanguage();
+    const resolved = this.templates.get(language)?.[key]
+      ? language
+      : defaultLanguage;
+    const variants = this.templates.get(resolved)[key];
+    const index = Math.floor(Math.random() * variants.length);
+
+    this.logger.log(`Using reply template ${resolved}/${key}#${index}`);
+    return this.interpolate(variants[index], variables);
+  }
+
+  private validate(template: string, maxLength: number): string[] {
+    if (typeof template !== 'string') {
+      return ['must be a string'];
+    }
+    const unknown = [...template.matchAll(VARIABLE_PATTERN)]
+      .map(([, name]) => name)
+      .filter((name) => !(name in WORST_CASE_VARIABLES));
+    if (unknown.length > 0) {
+      return [`uses unknown variables: ${unknown.join(', ')}`];
+    }
+
+    const length = tweetLength(
+      this.interpolate(template, WORST_CASE_VARIABLES),
+    );
+    return length > maxLength
+      ? [`can reach ${length} characters, over the ${maxLength} limit`]
+      : [];
+  }
+
+  private getMaxLength(key: string): number {
+    return IMAGE_NOTE_KEYS.includes(key as ImageNoteKey)
+      ? IMAGE_NOTE_MAX_LENGTH
+      : MAX_TWEET_LENGTH;
+  }
+
+  private interpolate(template: string, variables: ReplyVariables): string {
+    return template.replace(
+      VARIABLE_PATTERN,
+      (_, name: string) => variables[name] ?? '',
+    );
+  }
+
+  private getTemplatesDirectory(): string {
+    return (
+      this.configService.get('REPLY_TEMPLATES_DIR') ??
+      path.join(process.cwd(), 'templates', 'replies')
+    );
+  }
+
+  private getDefaultLanguage(): string {
+    return this.configService.get('REPLY_DEFAULT_LANGUAGE') ?? 'en';
+  }
+}
@@ -0,0 +1,36 @@
+// Twitter counts every link as a t.co URL of this length
+export const TWEET_URL_LENGTH = 23;
+export const MAX_TWEET_LENGTH = 280;
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+// Code point ranges weighted 1 by twitter-text; everything else,
+// including CJK and emoji, counts as 2
+const LIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+/**
+ * Length of a tweet as Twitter counts it against the 280 limit.
+ */
+export function tweetLength(text: string): number {
+  let urls = 0;
+  const withoutUrls = text.normalize('NFC').replace(URL_PATTERN, () => {
+    urls++;
+    return '';
+  });
+
+  let length = urls * TWEET_URL_LENGTH;
+  for (const char of withoutUrls) {
+    const codePoint = char.codePointAt(0);
+    length += LIGHT_RANGES.some(
+      ([start, end]) => codePoint >= start && codePoint <= end,
+    )
+      ? 1
+      : 2;
+  }
+  return length;
+}
@@ -0,0 +1,67 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import * as nacl from 'tweetnacl';
+import { SignerBackend } from '../signer-backend.interface';
+
+/**
+ * Base58 secret keys from WALLET_PRIVATE_KEYS (comma-separated) and the
+ * older single WALLET_PRIVATE_KEY. Keys are decoded once, on first use.
+ */
+@Injectable()
+export class EnvSignerBackend implements SignerBackend {
+  readonly name = 'env';
+  private secretKeys: Map<string, Uint8Array> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return this.readKeys().length > 0;
+  }
+
+  async listWallets(): Promise<string[]> {
+    return [...this.getSecretKeys().keys()];
+  }
+
+  async sign(walletAddress: string, message: Uint8Array): Promise<Uint8Array> {
+    const secretKey = this.getSecretKeys().get(walletAddress);
+    if (!secretKey) {
+      throw new Error(`No key for wallet ${walletAddress}`);
+    }
+    return nacl.sign.detached(message, secretKey);
+  }
+
+  private getSecretKeys(): Map<string, Uint8Array> {
+    if (!this.secretKeys) {
+      const secretKeys = new Map<string, Uint8Array>();
+      this.readKeys().forEach((encoded, index) => {
+        let decoded: Uint8Array;
+        try {
+          decoded = bs58.decode(encoded);
+        } catch {
+          // The decoder's message can quote the input, so it isn't passed on
+          throw new Error(`Wallet key #${index + 1} is not valid base58`);
+        }
+        if (decoded.length !== nacl.sign.secretKeyLength) {
+          throw new Error(`Wallet key #${index + 1} has the wrong length`);
+        }
+        const { publicKey, secretKey } =
+          nacl.sign.keyPair.fromSecretKey(decoded);
+        secretKeys.set(bs58.encode(publicKey), secretKey);
+        decoded.fill(0);
+      });
+      this.secretKeys = secretKeys;
+    }
+    return this.secretKeys;
+  }
+
+  private readKeys(): string[] {
+    const keys = [
+      ...(this.configService.get<string>('WALLET_PRIVATE_KEYS') ?? '').split(
+        ',',
+      ),
+      this.configService.get<string>('WALLET_PRIVATE_KEY') ?? '',
+    ];
+    return [...new Set(keys.map((key) => key.trim()).filter(Boolean))];
+  }
+}
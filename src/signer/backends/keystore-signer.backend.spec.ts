@@ -0,0 +1,90 @@
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as nacl from 'tweetnacl';
+import {
+  encryptKeystoreWallet,
+  KeystoreFile,
+  KeystoreSignerBackend,
+} from './keystore-signer.backend';
+
+describe('KeystoreSignerBackend', () => {
+  let dir: string;
+  let config: Record<string, string>;
+  let backend: KeystoreSignerBackend;
+  const keyPair = nacl.sign.keyPair();
+  const address = bs58.encode(keyPair.publicKey);
+
+  const writeKeystore = (keystore: KeystoreFile) =>
+    writeFileSync(config.SIGNER_KEYSTORE_PATH, JSON.stringify(keystore));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'keystore-'));
+    config = {
+      SIGNER_KEYSTORE_PATH: join(dir, 'wallets.json'),
+      SIGNER_KEYSTORE_PASSPHRASE: 'correct horse',
+    };
+    backend = new KeystoreSignerBackend({
+      get: (key: string) => config[key],
+    } as ConfigService);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decrypts the wallets and signs with them', async () => {
+    writeKeystore({
+      version: 1,
+      wallets: [encryptKeystoreWallet(keyPair.secretKey, 'correct horse')],
+    });
+    const message = new TextEncoder().encode('hello');
+
+    await expect(backend.listWallets()).resolves.toEqual([address]);
+    const signature = await backend.sign(address, message);
+    expect(
+      nacl.sign.detached.verify(message, signature, keyPair.publicKey),
+    ).toBe(true);
+  });
+
+  it('keeps no key material in the file in the clear', () => {
+    const wallet = encryptKeystoreWallet(keyPair.secretKey, 'correct horse');
+
+    expect(JSON.stringify(wallet)).not.toContain(
+      Buffer.from(keyPair.secretKey).toString('base64'),
+    );
+    expect(JSON.stringify(wallet)).not.toContain(
+      bs58.encode(keyPair.secretKey),
+    );
+  });
+
+  it('fails with the wrong passphrase', async () => {
+    writeKeystore({
+      version: 1,
+      wallets: [encryptKeystoreWallet(keyPair.secretKey, 'battery staple')],
+    });
+
+    await expect(backend.listWallets()).rejects.toThrow(
+      `Could not decrypt wallet ${address}`,
+    );
+  });
+
+  it('fails when an entry holds a different key than its address', async () => {
+    const other = nacl.sign.keyPair();
+    writeKeystore({
+      version: 1,
+      wallets: [
+        {
+          ...encryptKeystoreWallet(other.secretKey, 'correct horse'),
+          address,
+        },
+      ],
+    });
+
+    await expect(backend.listWallets()).rejects.toThrow(
+      'holds a different key',
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'crypto';
+import { readFileSync } from 'fs';
+import * as nacl from 'tweetnacl';
+import { SignerBackend } from '../signer-backend.interface';
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+export interface KeystoreWallet {
+  address: string;
+  kdf: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+  ciphertext: string;
+}
+
+export interface KeystoreFile {
+  version: 1;
+  wallets: KeystoreWallet[];
+}
+
+/**
+ * Encrypts a secret key for the keystore: scrypt derives an AES-256-GCM
+ * key from the passphrase, with a fresh salt and IV per wallet.
+ */
+export function encryptKeystoreWallet(
+  secretKey: Uint8Array,
+  passphrase: string,
+): KeystoreWallet {
+  const { publicKey } = nacl.sign.keyPair.fromSecretKey(secretKey);
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = scryptSync(passphrase, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+  key.fill(0);
+  return {
+    address: bs58.encode(publicKey),
+    kdf: { name: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS },
+    cipher: {
+      name: 'aes-256-gcm',
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+    },
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+function decryptKeystoreWallet(
+  wallet: KeystoreWallet,
+  passphrase: string,
+): Uint8Array {
+  if (wallet.kdf?.name !== 'scrypt' || wallet.cipher?.name !== 'aes-256-gcm') {
+    throw new Error(`Unsupported keystore entry for wallet ${wallet.address}`);
+  }
+  const { salt, N, r, p } = wallet.kdf;
+  const key = scryptSync(passphrase, Buffer.from(salt, 'base64'), KEY_LENGTH, {
+    N,
+    r,
+    p,
+    maxmem: 256 * N * r,
+  });
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    Buffer.from(wallet.cipher.iv, 'base64'),
+  );
+  decipher.setAuthTag(Buffer.from(wallet.cipher.tag, 'base64'));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(wallet.ciphertext, 'base64')),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new Error(
+      `Could not decrypt wallet ${wallet.address}; is the passphrase right?`,
+    );
+  } finally {
+    key.fill(0);
+  }
+}
+
+/**
+ * Wallets in an encrypted keystore file at SIGNER_KEYSTORE_PATH, unlocked
+ * with SIGNER_KEYSTORE_PASSPHRASE. Entries are made with
+ * encryptKeystoreWallet. The file is read and decrypted on first use; only
+ * the decrypted keys are kept after that.
+ */
+@Injectable()
+export class KeystoreSignerBackend implements SignerBackend {
+  readonly name = 'keystore';
+  private secretKeys: Map<string, Uint8Array> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return (
+      !!this.configService.get('SIGNER_KEYSTORE_PATH') &&
+      !!this.configService.get('SIGNER_KEYSTORE_PASSPHRASE')
+    );
+  }
+
+  async listWallets(): Promise<string[]> {
+    return [...this.getSecretKeys().keys()];
+  }
+
+  async sign(walletAddress: string, message: Uint8Array): Promise<Uint8Array> {
+    const secretKey = this.getSecretKeys().get(walletAddress);
+    if (!secretKey) {
+      throw new Error(`No key for wallet ${walletAddress}`);
+    }
+    return nacl.sign.detached(message, secretKey);
+  }
+
+  private getSecretKeys(): Map<string, Uint8Array> {
+    if (!this.secretKeys) {
+      const path = this.configService.get<string>('SIGNER_KEYSTORE_PATH');
+      const keystore: KeystoreFile = JSON.parse(readFileSync(path, 'utf8'));
+      if (keystore.version !== 1 || !Array.isArray(keystore.wallets)) {
+        throw new Error(`${path} is not a version 1 keystore`);
+      }
+
+      const passphrase = this.configService.get<string>(
+        'SIGNER_KEYSTORE_PASSPHRASE',
+      );
+      const secretKeys = new Map<string, Uint8Array>();
+      for (const wallet of keystore.wallets) {
+        const decrypted = decryptKeystoreWallet(wallet, passphrase);
+        const { publicKey, secretKey } =
+          nacl.sign.keyPair.fromSecretKey(decrypted);
+        decrypted.fill(0);
+        if (bs58.encode(publicKey) !== wallet.address) {
+          throw new Error(
+            `Keystore entry for ${wallet.address} holds a different key`,
+          );
+        }
+        secretKeys.set(wallet.address, secretKey);
+      }
+      this.secretKeys = secretKeys;
+    }
+    return this.secretKeys;
+  }
+}
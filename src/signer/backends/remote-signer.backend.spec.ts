@@ -0,0 +1,86 @@
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import * as nacl from 'tweetnacl';
+import { RemoteSignerBackend } from './remote-signer.backend';
+
+describe('RemoteSignerBackend', () => {
+  let server: Server;
+  let backend: RemoteSignerBackend;
+  let authorization: string | undefined;
+  const keyPair = nacl.sign.keyPair();
+  const address = bs58.encode(keyPair.publicKey);
+
+  // A local stand-in for the signing service, holding a throwaway key
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      authorization = req.headers.authorization;
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.method === 'GET' && req.url === '/wallets') {
+          res.end(JSON.stringify({ wallets: [address] }));
+        } else if (req.method === 'POST' && req.url === '/sign') {
+          const { walletAddress, message } = JSON.parse(body);
+          if (walletAddress !== address) {
+            res.statusCode = 404;
+            res.end(JSON.stringify({ error: 'unknown wallet' }));
+            return;
+          }
+          const signature = nacl.sign.detached(
+            Buffer.from(message, 'base64'),
+            keyPair.secretKey,
+          );
+          res.end(
+            JSON.stringify({
+              signature: Buffer.from(signature).toString('base64'),
+            }),
+          );
+        } else {
+          res.statusCode = 404;
+          res.end('{}');
+        }
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+    const config: Record<string, string> = {
+      SIGNER_REMOTE_URL: `http://127.0.0.1:${port}/`,
+      SIGNER_REMOTE_TOKEN: 'signer-token',
+    };
+    backend = new RemoteSignerBackend({
+      get: (key: string) => config[key],
+    } as ConfigService);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('lists the remote wallets with the bearer token', async () => {
+    await expect(backend.listWallets()).resolves.toEqual([address]);
+    expect(authorization).toBe('Bearer signer-token');
+  });
+
+  it('gets signatures from the remote signer', async () => {
+    const message = new TextEncoder().encode('Sign in to Cyber');
+
+    const signature = await backend.sign(address, message);
+
+    expect(
+      nacl.sign.detached.verify(message, signature, keyPair.publicKey),
+    ).toBe(true);
+  });
+
+  it('surfaces errors from the remote signer', async () => {
+    const other = bs58.encode(nacl.sign.keyPair().publicKey);
+
+    await expect(
+      backend.sign(other, new TextEncoder().encode('hi')),
+    ).rejects.toThrow('status code 404');
+  });
+});
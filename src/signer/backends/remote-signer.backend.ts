@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { SignerBackend } from '../signer-backend.interface';
+
+/**
+ * A signing service at SIGNER_REMOTE_URL that holds the keys itself:
+ *
+ *   GET  /wallets -> { wallets: ["<address>", ...] }
+ *   POST /sign { walletAddress, message } -> { signature }
+ *
+ * Messages and signatures are base64. SIGNER_REMOTE_TOKEN, when set, is
+ * sent as a bearer token. Anything that speaks this, such as a small local
+ * stub holding a throwaway key, can stand in for the real one.
+ */
+@Injectable()
+export class RemoteSignerBackend implements SignerBackend {
+  readonly name = 'remote';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.configService.get('SIGNER_REMOTE_URL');
+  }
+
+  async listWallets(): Promise<string[]> {
+    const response = await axios.get(this.url('/wallets'), this.options());
+    const wallets = response.data?.wallets;
+    if (
+      !Array.isArray(wallets) ||
+      !wallets.every((wallet) => typeof wallet === 'string')
+    ) {
+      throw new Error('Remote signer returned an invalid wallet list');
+    }
+    return wallets;
+  }
+
+  async sign(walletAddress: string, message: Uint8Array): Promise<Uint8Array> {
+    const response = await axios.post(
+      this.url('/sign'),
+      { walletAddress, message: Buffer.from(message).toString('base64') },
+      this.options(),
+    );
+    const signature = response.data?.signature;
+    if (typeof signature !== 'string') {
+      throw new Error('Remote signer returned no signature');
+    }
+    return Buffer.from(signature, 'base64');
+  }
+
+  private url(path: string): string {
+    return `${this.configService.get<string>('SIGNER_REMOTE_URL').replace(/\/+$/, '')}${path}`;
+  }
+
+  private options() {
+    const token = this.configService.get('SIGNER_REMOTE_TOKEN');
+    return {
+      timeout: parseInt(
+        this.configService.get('SIGNER_REMOTE_TIMEOUT_MS') ?? '10000',
+      ),
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    };
+  }
+}
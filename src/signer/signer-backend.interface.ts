@@ -0,0 +1,10 @@
+export interface SignerBackend {
+  readonly name: string;
+  isConfigured(): boolean;
+  // Base58 addresses of the wallets this backend can sign for
+  listWallets(): Promise<string[]>;
+  // Detached ed25519 signature of `message` by the given wallet
+  sign(walletAddress: string, message: Uint8Array): Promise<Uint8Array>;
+}
+
+export const SIGNER_BACKENDS = 'SIGNER_BACKENDS';
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { EnvSignerBackend } from './backends/env-signer.backend';
+import { KeystoreSignerBackend } from './backends/keystore-signer.backend';
+import { RemoteSignerBackend } from './backends/remote-signer.backend';
+import { SIGNER_BACKENDS, SignerBackend } from './signer-backend.interface';
+import { SignerService } from './signer.service';
+
+const backendClasses = [
+  EnvSignerBackend,
+  KeystoreSignerBackend,
+  RemoteSignerBackend,
+];
+
+@Module({
+  providers: [
+    ...backendClasses,
+    {
+      provide: SIGNER_BACKENDS,
+      inject: backendClasses,
+      useFactory: (...backends: SignerBackend[]) => backends,
+    },
+    SignerService,
+  ],
+  exports: [SignerService],
+})
+export class SignerModule {}
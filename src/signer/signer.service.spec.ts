@@ -0,0 +1,107 @@
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import * as nacl from 'tweetnacl';
+import { EnvSignerBackend } from './backends/env-signer.backend';
+import { SignerBackend } from './signer-backend.interface';
+import { SignerService } from './signer.service';
+
+describe('SignerService', () => {
+  let config: Record<string, string>;
+  let configService: ConfigService;
+  const keyPairs = [nacl.sign.keyPair(), nacl.sign.keyPair()];
+  const addresses = keyPairs.map(({ publicKey }) => bs58.encode(publicKey));
+  const message = new TextEncoder().encode('Sign in to Cyber');
+
+  const createService = (backends: SignerBackend[] = []) =>
+    new SignerService(configService, [
+      new EnvSignerBackend(configService),
+      ...backends,
+    ]);
+
+  beforeEach(() => {
+    config = {
+      WALLET_PRIVATE_KEYS: keyPairs
+        .map(({ secretKey }) => bs58.encode(secretKey))
+        .join(', '),
+    };
+    configService = { get: (key: string) => config[key] } as ConfigService;
+  });
+
+  it('lists the env wallets, including the single-key variable', async () => {
+    const extra = nacl.sign.keyPair();
+    config.WALLET_PRIVATE_KEY = bs58.encode(extra.secretKey);
+
+    await expect(createService().listWallets()).resolves.toEqual([
+      ...addresses,
+      bs58.encode(extra.publicKey),
+    ]);
+  });
+
+  it('takes turns between wallets', async () => {
+    const service = createService();
+
+    const picked = [
+      await service.pickWallet(),
+      await service.pickWallet(),
+      await service.pickWallet(),
+    ];
+
+    expect(picked).toEqual([addresses[0], addresses[1], addresses[0]]);
+  });
+
+  it('always picks the same wallet for the same key', async () => {
+    const service = createService();
+    const first = await service.pickWallet('tweet-1');
+
+    for (let i = 0; i < 5; i++) {
+      await expect(service.pickWallet('tweet-1')).resolves.toBe(first);
+      await service.pickWallet();
+    }
+  });
+
+  it('signs with the chosen wallet', async () => {
+    const signature = await createService().sign(addresses[1], message);
+
+    expect(
+      nacl.sign.detached.verify(message, signature, keyPairs[1].publicKey),
+    ).toBe(true);
+  });
+
+  it('rejects a signature made with a different key', async () => {
+    config.SIGNER_BACKEND = 'remote';
+    const service = createService([
+      {
+        name: 'remote',
+        isConfigured: () => true,
+        listWallets: async () => [addresses[0]],
+        sign: async (_wallet, signed) =>
+          nacl.sign.detached(signed, keyPairs[1].secretKey),
+      },
+    ]);
+
+    await expect(service.sign(addresses[0], message)).rejects.toThrow(
+      'does not verify',
+    );
+  });
+
+  it('refuses an unconfigured backend', async () => {
+    config.SIGNER_BACKEND = 'keystore';
+    await expect(createService().pickWallet()).rejects.toThrow(
+      'Unknown signer backend "keystore"',
+    );
+
+    config.SIGNER_BACKEND = 'env';
+    delete config.WALLET_PRIVATE_KEYS;
+    await expect(createService().pickWallet()).rejects.toThrow(
+      'Signer backend "env" is not configured',
+    );
+  });
+
+  it('does not echo an invalid key in its error', async () => {
+    config.WALLET_PRIVATE_KEYS = 'not-base58-0OIl';
+
+    await expect(createService().listWallets()).rejects.toThrow(
+      /^Wallet key #1 is not valid base58$/,
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import bs58 from 'bs58';
+import { createHash } from 'crypto';
+import * as nacl from 'tweetnacl';
+import { SIGNER_BACKENDS, SignerBackend } from './signer-backend.interface';
+
+/**
+ * Signs for the launch wallets held by the backend named in SIGNER_BACKEND
+ * (env by default). Callers only ever see wallet addresses; key material
+ * stays inside the backend.
+ */
+@Injectable()
+export class SignerService {
+  private readonly logger = new Logger(SignerService.name);
+  private readonly backends: Map<string, SignerBackend>;
+  private wallets: Promise<string[]> | null = null;
+  private nextWallet = 0;
+
+  constructor(
+    private readonly configService: ConfigService,
+    @Inject(SIGNER_BACKENDS) backends: SignerBackend[],
+  ) {
+    this.backends = new Map(backends.map((backend) => [backend.name, backend]));
+  }
+
+  /** Addresses of every wallet the backend can sign for. */
+  listWallets(): Promise<string[]> {
+    if (!this.wallets) {
+      const backend = this.getBackend();
+      this.wallets = backend.listWallets().then((wallets) => {
+        if (wallets.length === 0) {
+          throw new Error(`Signer backend "${backend.name}" has no wallets`);
+        }
+        this.logger.log(
+          `🔑 Signing with ${wallets.length} wallet(s) from ${backend.name}`,
+        );
+        return wallets;
+      });
+      // Let the next call try again rather than caching the failure
+      this.wallets.catch(() => (this.wallets = null));
+    }
+    return this.wallets;
+  }
+
+  /**
+   * Picks the wallet for a launch. Wallets take turns, except that calls
+   * with the same key always get the same wallet, so a retried launch
+   * signs in as the account that made the first attempt.
+   */
+  async pickWallet(key?: string): Promise<string> {
+    const wallets = await this.listWallets();
+    if (key) {
+      const hash = createHash('sha256').update(key).digest();
+      return wallets[hash.readUInt32BE(0) % wallets.length];
+    }
+    const wallet = wallets[this.nextWallet % wallets.length];
+    this.nextWallet = (this.nextWallet + 1) % wallets.length;
+    return wallet;
+  }
+
+  /**
+   * Signs `message` with the given wallet. The signature is checked against
+   * the address before it's returned, so a backend that signs with the
+   * wrong key fails here instead of at the API.
+   */
+  async sign(walletAddress: string, message: Uint8Array): Promise<Uint8Array> {
+    const signature = await this.getBackend().sign(walletAddress, message);
+    if (
+      !nacl.sign.detached.verify(message, signature, bs58.decode(walletAddress))
+    ) {
+      throw new Error(`Signature from ${walletAddress} does not verify`);
+    }
+    return signature;
+  }
+
+  private getBackend(): SignerBackend {
+    const name = this.configService.get('SIGNER_BACKEND') ?? 'env';
+    const backend = this.backends.get(name);
+    if (!backend) {
+      throw new Error(`Unknown signer backend "${name}"`);
+    }
+    if (!backend.isConfigured()) {
+      throw new Error(`Signer backend "${name}" is not configured`);
+    }
+    return backend;
+  }
+}
@@ -0,0 +1,179 @@
+import { ConfigService } from '@nestjs/config';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  findMetadataAddress,
+  METADATA_PROGRAM_ID,
+  MintConfirmationService,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+} from './mint-confirmation.service';
+
+interface StubAccount {
+  owner: PublicKey;
+  data: Buffer;
+}
+
+const initializedMint = (size = 82) => {
+  const data = Buffer.alloc(size);
+  data[45] = 1;
+  return data;
+};
+
+describe('MintConfirmationService', () => {
+  let server: Server;
+  let service: MintConfirmationService;
+  let config: Record<string, string>;
+  // What the stub RPC holds, by address
+  let accounts: Map<string, StubAccount>;
+  let failRequests: number;
+  const mint = Keypair.generate().publicKey;
+
+  // Answers getMultipleAccounts the way a validator does
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { id, method, params } = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        if (failRequests > 0) {
+          failRequests--;
+          res.statusCode = 503;
+          res.end('{}');
+          return;
+        }
+        if (method !== 'getMultipleAccounts') {
+          res.end(
+            JSON.stringify({
+              jsonrpc: '2.0',
+              id,
+              error: { code: -32601, message: 'Method not found' },
+            }),
+          );
+          return;
+        }
+        const value = params[0].map((address: string) => {
+          const account = accounts.get(address);
+          return account
+            ? {
+                data: [account.data.toString('base64'), 'base64'],
+                executable: false,
+                lamports: 1461600,
+                owner: account.owner.toBase58(),
+                rentEpoch: 0,
+                space: account.data.length,
+              }
+            : null;
+        });
+        res.end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            id,
+            result: { context: { slot: 1 }, value },
+          }),
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    accounts = new Map();
+    failRequests = 0;
+    const { port } = server.address() as AddressInfo;
+    config = {
+      SOLANA_RPC_URL: `http://127.0.0.1:${port}`,
+      MINT_CONFIRMATION_TIMEOUT_MS: '300',
+      MINT_CONFIRMATION_POLL_MS: '50',
+    };
+    service = new MintConfirmationService({
+      get: (key: string) => config[key],
+    } as ConfigService);
+  });
+
+  it('confirms a mint with Metaplex metadata', async () => {
+    accounts.set(mint.toBase58(), {
+      owner: TOKEN_PROGRAM_ID,
+      data: initializedMint(),
+    });
+    accounts.set(findMetadataAddress(mint).toBase58(), {
+      owner: METADATA_PROGRAM_ID,
+      data: Buffer.alloc(10),
+    });
+
+    await expect(service.checkMint(mint.toBase58())).resolves.toEqual({
+      mintExists: true,
+      hasMetadata: true,
+    });
+    await expect(service.waitForMint(mint.toBase58())).resolves.toBe(true);
+  });
+
+  it('confirms a Token-2022 mint with metadata on the mint', async () => {
+    const data = initializedMint(166 + 4 + 8 + 4 + 20);
+    data[165] = 1;
+    // A zero-length extension, then the token metadata one
+    data.writeUInt16LE(3, 166);
+    data.writeUInt16LE(0, 168);
+    data.writeUInt16LE(19, 170);
+    data.writeUInt16LE(20, 172);
+    accounts.set(mint.toBase58(), { owner: TOKEN_2022_PROGRAM_ID, data });
+
+    await expect(service.checkMint(mint.toBase58())).resolves.toEqual({
+      mintExists: true,
+      hasMetadata: true,
+    });
+  });
+
+  it('does not confirm a mint without metadata', async () => {
+    accounts.set(mint.toBase58(), {
+      owner: TOKEN_PROGRAM_ID,
+      data: initializedMint(),
+    });
+
+    await expect(service.checkMint(mint.toBase58())).resolves.toEqual({
+      mintExists: true,
+      hasMetadata: false,
+    });
+  });
+
+  it('does not take an account owned by another program for a mint', async () => {
+    accounts.set(mint.toBase58(), {
+      owner: Keypair.generate().publicKey,
+      data: initializedMint(),
+    });
+
+    await expect(service.checkMint(mint.toBase58())).resolves.toMatchObject({
+      mintExists: false,
+    });
+  });
+
+  it('gives up waiting after the timeout', async () => {
+    const started = Date.now();
+
+    await expect(service.waitForMint(mint.toBase58())).resolves.toBe(false);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('keeps polling through RPC errors until the mint shows up', async () => {
+    failRequests = 2;
+    accounts.set(mint.toBase58(), {
+      owner: TOKEN_PROGRAM_ID,
+      data: initializedMint(),
+    });
+    accounts.set(findMetadataAddress(mint).toBase58(), {
+      owner: METADATA_PROGRAM_ID,
+      data: Buffer.alloc(10),
+    });
+    config.MINT_CONFIRMATION_TIMEOUT_MS = '5000';
+
+    await expect(service.waitForMint(mint.toBase58())).resolves.toBe(true);
+  });
+});
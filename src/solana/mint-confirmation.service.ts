@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Commitment, Connection, PublicKey } from '@solana/web3.js';
+
+export const TOKEN_PROGRAM_ID = new PublicKey(
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+);
+export const TOKEN_2022_PROGRAM_ID = new PublicKey(
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+);
+export const METADATA_PROGRAM_ID = new PublicKey(
+  'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s',
+);
+
+// SPL mint layout: 82 bytes, with the is_initialized flag at offset 45
+const MINT_SIZE = 82;
+const MINT_INITIALIZED_OFFSET = 45;
+// Token-2022 extensions start after the account type byte that follows a
+// token account's worth of space
+const TOKEN_2022_EXTENSIONS_OFFSET = 166;
+const TOKEN_METADATA_EXTENSION = 19;
+
+export interface MintCheck {
+  // An initialized mint owned by one of the token programs
+  mintExists: boolean;
+  // Metaplex metadata, or Token-2022 metadata on the mint itself
+  hasMetadata: boolean;
+}
+
+export function findMetadataAddress(mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METADATA_PROGRAM_ID,
+  )[0];
+}
+
+function hasToken2022Metadata(data: Buffer): boolean {
+  let offset = TOKEN_2022_EXTENSIONS_OFFSET;
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset);
+    if (type === TOKEN_METADATA_EXTENSION) {
+      return true;
+    }
+    offset += 4 + data.readUInt16LE(offset + 2);
+  }
+  return false;
+}
+
+/**
+ * Checks that a mint the launchpad reported really exists, by reading the
+ * mint and metadata accounts from SOLANA_RPC_URL.
+ */
+@Injectable()
+export class MintConfirmationService {
+  private readonly logger = new Logger(MintConfirmationService.name);
+  private connection: Connection | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isEnabled(): boolean {
+    return this.configService.get('MINT_CONFIRMATION_ENABLED') !== 'false';
+  }
+
+  /** Reads both accounts in one RPC call. */
+  async checkMint(mintAddress: string): Promise<MintCheck> {
+    const mint = new PublicKey(mintAddress);
+    const [mintAccount, metadataAccount] =
+      await this.getConnection().getMultipleAccountsInfo([
+        mint,
+        findMetadataAddress(mint),
+      ]);
+
+    const isToken2022 = mintAccount?.owner.equals(TOKEN_2022_PROGRAM_ID);
+    const mintExists =
+      !!mintAccount &&
+      (mintAccount.owner.equals(TOKEN_PROGRAM_ID) || isToken2022) &&
+      mintAccount.data.length >= MINT_SIZE &&
+      mintAccount.data[MINT_INITIALIZED_OFFSET] === 1;
+    const hasMetadata =
+      !!metadataAccount?.owner.equals(METADATA_PROGRAM_ID) ||
+      (mintExists && isToken2022 && hasToken2022Metadata(mintAccount.data));
+    return { mintExists, hasMetadata };
+  }
+
+  /**
+   * Whether the mint and its metadata are both on chain. RPC errors count
+   * as not yet confirmed.
+   */
+  async isConfirmed(mintAddress: string): Promise<boolean> {
+    try {
+      const check = await this.checkMint(mintAddress);
+      return check.mintExists && check.hasMetadata;
+    } catch (error) {
+      this.logger.warn(`Error checking mint ${mintAddress}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Polls until the mint and its metadata are both on chain, for up to
+   * MINT_CONFIRMATION_TIMEOUT_MS. Returns whether they showed up.
+   */
+  async waitForMint(mintAddress: string): Promise<boolean> {
+    const timeoutMs = parseInt(
+      this.configService.get('MINT_CONFIRMATION_TIMEOUT_MS') ?? '30000',
+    );
+    const pollMs = parseInt(
+      this.configService.get('MINT_CONFIRMATION_POLL_MS') ?? '2000',
+    );
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      if (await this.isConfirmed(mintAddress)) {
+        return true;
+      }
+      if (Date.now() + pollMs > deadline) {
+        return false;
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+  }
+
+  private getConnection(): Connection {
+    if (!this.connection) {
+      this.connection = new Connection(
+        this.configService.get('SOLANA_RPC_URL') ??
+          'https://api.mainnet-beta.solana.com',
+        (this.configService.get('SOLANA_COMMITMENT') ??
+          'confirmed') as Commitment,
+      );
+    }
+    return this.connection;
+  }
+}
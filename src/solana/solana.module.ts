@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { MintConfirmationService } from './mint-confirmation.service';
+
+@Module({
+  providers: [MintConfirmationService],
+  exports: [MintConfirmationService],
+})
+export class SolanaModule {}
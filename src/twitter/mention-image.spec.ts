@@ -0,0 +1,95 @@
+import { ApiV2Includes, TweetV2, UserV2 } from 'twitter-api-v2';
+import { resolveMentionImage } from './mention-image';
+
+describe('resolveMentionImage', () => {
+  const photo = (key: string) => ({
+    media_key: key,
+    type: 'photo' as const,
+    url: `https://pbs.twimg.com/${key}.jpg`,
+  });
+  const author = {
+    id: 'a1',
+    username: 'alice',
+    profile_image_url: 'https://pbs.twimg.com/profile_images/1/me_normal.jpg',
+  } as UserV2;
+
+  const mention = (overrides: Partial<TweetV2> = {}): TweetV2 => ({
+    id: '1',
+    text: '@bot make this a token',
+    edit_history_tweet_ids: ['1'],
+    ...overrides,
+  });
+
+  const includes: ApiV2Includes = {
+    media: [photo('own'), photo('quoted'), photo('parent')],
+    tweets: [
+      {
+        id: 'q',
+        text: 'quoted',
+        edit_history_tweet_ids: ['q'],
+        attachments: { media_keys: ['quoted'] },
+      },
+      {
+        id: 'p',
+        text: 'parent',
+        edit_history_tweet_ids: ['p'],
+        attachments: { media_keys: ['parent'] },
+      },
+    ],
+  };
+
+  const options = { avatarFallback: false };
+
+  it('prefers a photo attached to the mention', () => {
+    expect(
+      resolveMentionImage(
+        mention({
+          attachments: { media_keys: ['own'] },
+          referenced_tweets: [{ type: 'quoted', id: 'q' }],
+        }),
+        includes,
+        author,
+        options,
+      ),
+    ).toEqual({ url: 'https://pbs.twimg.com/own.jpg', source: 'attached' });
+  });
+
+  it('uses a quoted tweet before the tweet replied to', () => {
+    const tweet = mention({
+      referenced_tweets: [
+        { type: 'replied_to', id: 'p' },
+        { type: 'quoted', id: 'q' },
+      ],
+    });
+
+    expect(resolveMentionImage(tweet, includes, author, options)).toEqual({
+      url: 'https://pbs.twimg.com/quoted.jpg',
+      source: 'quoted_tweet',
+    });
+  });
+
+  it('uses the photo of the tweet replied to', () => {
+    const tweet = mention({
+      referenced_tweets: [{ type: 'replied_to', id: 'p' }],
+    });
+
+    expect(resolveMentionImage(tweet, includes, author, options)).toEqual({
+      url: 'https://pbs.twimg.com/parent.jpg',
+      source: 'replied_tweet',
+    });
+  });
+
+  it('falls back to the full-size avatar only when enabled', () => {
+    expect(
+      resolveMentionImage(mention(), includes, author, options),
+    ).toBeNull();
+    expect(
+      resolveMentionImage(mention(), includes, author, {
+        avatarFallback: true,
+      }),
+    ).toEqual({
+      url: 'https://pbs.twimg.com/profile_images/1/me_400x400.jpg',
+      source: 'avatar',
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { ApiV2Includes, TweetV2, UserV2 } from 'twitter-api-v2';
+import { ImageSource } from '../queue/mention-job.interface';
+
+export interface MentionImage {
+  url: string;
+  source: ImageSource;
+}
+
+export interface MentionImageOptions {
+  // Use the author's profile picture when no tweet has a photo
+  avatarFallback: boolean;
+}
+
+function findPhoto(tweet: TweetV2, includes: ApiV2Includes): string | null {
+  const photo = includes?.media?.find(
+    (media) =>
+      media.type === 'photo' &&
+      tweet.attachments?.media_keys?.includes(media.media_key),
+  );
+  return photo?.url ?? null;
+}
+
+/**
+ * Picks the token image for a mention: a photo on the mention itself, then
+ * one on the tweet it quotes, then one on the tweet it replies to, then
+ * optionally the author's avatar. Referenced tweets and their media have
+ * to be requested as expansions.
+ */
+export function resolveMentionImage(
+  tweet: TweetV2,
+  includes: ApiV2Includes,
+  author: UserV2 | undefined,
+  options: MentionImageOptions,
+): MentionImage | null {
+  const attached = findPhoto(tweet, includes);
+  if (attached) {
+    return { url: attached, source: 'attached' };
+  }
+
+  const referenceSources = [
+    ['quoted', 'quoted_tweet'],
+    ['replied_to', 'replied_tweet'],
+  ] as const;
+  for (const [type, source] of referenceSources) {
+    const reference = tweet.referenced_tweets?.find((ref) => ref.type === type);
+    const referenced = includes?.tweets?.find(
+      (included) => included.id === reference?.id,
+    );
+    const url = referenced && findPhoto(referenced, includes);
+    if (url) {
+      return { url, source };
+    }
+  }
+
+  if (options.avatarFallback && author?.profile_image_url) {
+    return {
+      // The API links the 48px version; ask for the largest square instead
+      url: author.profile_image_url.replace(/_normal(\.\w+)$/, '_400x400$1'),
+      source: 'avatar',
+    };
+  }
+  return null;
+}
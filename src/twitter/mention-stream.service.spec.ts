@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter } from 'events';
+import { ETwitterStreamEvent } from 'twitter-api-v2';
+import { LeaderElectionService } from '../leader/leader-election.service';
+import {
+  MENTION_STREAM_RULE_TAG,
+  MentionStreamService,
+} from './mention-stream.service';
+import { TwitterRateLimitService } from './twitter-rate-limit.service';
+import { TwitterService } from './twitter.service';
+
+describe('MentionStreamService', () => {
+  let service: MentionStreamService;
+  let config: Record<string, string>;
+  let twitterService: {
+    getIngestionMode: jest.Mock;
+    isMentionPollingPaused: jest.Mock;
+    ingestNewMentions: jest.Mock;
+    ingestStreamedMention: jest.Mock;
+  };
+  let leaderElection: { isLeader: jest.Mock };
+  let stream: EventEmitter & { connect: jest.Mock; destroy: jest.Mock };
+  let v2: {
+    searchStream: jest.Mock;
+    streamRules: jest.Mock;
+    updateStreamRules: jest.Mock;
+  };
+
+  const emitMention = async (id: string) => {
+    stream.emit(ETwitterStreamEvent.Data, { data: { id }, includes: {} });
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  beforeEach(async () => {
+    config = { TWITTER_USER_NAME: 'bot', STREAM_RECONNECT_BASE_MS: '1000' };
+    twitterService = {
+      getIngestionMode: jest.fn().mockReturnValue('stream'),
+      isMentionPollingPaused: jest.fn().mockResolvedValue(false),
+      ingestNewMentions: jest.fn().mockResolvedValue(true),
+      ingestStreamedMention: jest.fn().mockResolvedValue(undefined),
+    };
+    leaderElection = { isLeader: jest.fn().mockReturnValue(true) };
+    stream = Object.assign(new EventEmitter(), {
+      connect: jest.fn().mockResolvedValue(undefined),
+      destroy: jest.fn(),
+    });
+    v2 = {
+      searchStream: jest.fn().mockReturnValue(stream),
+      streamRules: jest.fn().mockResolvedValue({ data: [] }),
+      updateStreamRules: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MentionStreamService,
+        { provide: ConfigService, useValue: { get: (key) => config[key] } },
+        { provide: TwitterService, useValue: twitterService },
+        { provide: LeaderElectionService, useValue: leaderElection },
+        { provide: TwitterRateLimitService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<MentionStreamService>(MentionStreamService);
+    (service as any).client = { v2 };
+  });
+
+  it('does nothing in poll mode', async () => {
+    twitterService.getIngestionMode.mockReturnValue('poll');
+
+    await service.supervise();
+
+    expect(v2.searchStream).not.toHaveBeenCalled();
+  });
+
+  it('adds the mention rule, connects and backfills', async () => {
+    await service.supervise();
+
+    expect(v2.updateStreamRules).toHaveBeenCalledWith({
+      add: [{ value: '@bot', tag: MENTION_STREAM_RULE_TAG }],
+    });
+    expect(stream.connect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        autoReconnect: true,
+        autoReconnectRetries: 'unlimited',
+      }),
+    );
+    expect(twitterService.ingestNewMentions).toHaveBeenCalledTimes(1);
+    expect(service.isConnected()).toBe(true);
+  });
+
+  it('replaces a stale rule with the same tag', async () => {
+    v2.streamRules.mockResolvedValue({
+      data: [
+        { id: 'r1', value: '@oldbot', tag: MENTION_STREAM_RULE_TAG },
+        { id: 'r2', value: 'from:someone', tag: 'other' },
+      ],
+    });
+
+    await service.supervise();
+
+    expect(v2.updateStreamRules).toHaveBeenCalledWith({
+      delete: { ids: ['r1'] },
+    });
+    expect(v2.updateStreamRules).toHaveBeenCalledWith({
+      add: [{ value: '@bot', tag: MENTION_STREAM_RULE_TAG }],
+    });
+  });
+
+  it('advances the cursor with the stream only once backfilled', async () => {
+    twitterService.ingestNewMentions.mockResolvedValueOnce(false);
+    await service.supervise();
+
+    await emitMention('1');
+    expect(twitterService.ingestStreamedMention).toHaveBeenLastCalledWith(
+      { id: '1' },
+      {},
+      false,
+    );
+
+    await service.supervise();
+    await emitMention('2');
+    expect(twitterService.ingestNewMentions).toHaveBeenCalledTimes(2);
+    expect(twitterService.ingestStreamedMention).toHaveBeenLastCalledWith(
+      { id: '2' },
+      {},
+      true,
+    );
+  });
+
+  it('backfills again after a reconnect or a failed ingest', async () => {
+    await service.supervise();
+
+    stream.emit(ETwitterStreamEvent.Reconnected);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(twitterService.ingestNewMentions).toHaveBeenCalledTimes(2);
+
+    twitterService.ingestStreamedMention.mockRejectedValueOnce(new Error('db'));
+    await emitMention('3');
+    await service.supervise();
+    expect(twitterService.ingestNewMentions).toHaveBeenCalledTimes(3);
+  });
+
+  it('closes the stream when no longer the leader', async () => {
+    await service.supervise();
+    leaderElection.isLeader.mockReturnValue(false);
+
+    await service.supervise();
+
+    expect(stream.destroy).toHaveBeenCalled();
+    expect(service.isConnected()).toBe(false);
+  });
+
+  it('backs off exponentially between reconnects', () => {
+    expect(service.getReconnectDelayMs(1)).toBe(1000);
+    expect(service.getReconnectDelayMs(3)).toBe(4000);
+    expect(service.getReconnectDelayMs(20)).toBe(320000);
+    expect(service.getReconnectDelayMs(1, { code: 429 })).toBe(60000);
+  });
+});
@@ -0,0 +1,197 @@
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import {
+  ETwitterStreamEvent,
+  TweetStream,
+  TweetV2SingleStreamResult,
+  TwitterApi,
+} from 'twitter-api-v2';
+import { LeaderElectionService } from '../leader/leader-election.service';
+import { TwitterRateLimitService } from './twitter-rate-limit.service';
+import { MENTION_FIELDS, TwitterService } from './twitter.service';
+
+// Tag of the filtered-stream rule this bot owns; other rules are left alone
+export const MENTION_STREAM_RULE_TAG = 'mentions';
+
+/**
+ * Ingests mentions from the v2 filtered stream when MENTIONS_INGESTION_MODE
+ * is `stream`, as an alternative to polling.
+ *
+ * Only the leader holds the stream open. The client reconnects on its own,
+ * backing off exponentially; mentions sent while disconnected are fetched
+ * from the poll cursor on every (re)connect, and the cursor only moves with
+ * the stream once that backfill has caught up.
+ */
+@Injectable()
+export class MentionStreamService implements OnApplicationShutdown {
+  private readonly logger = new Logger(MentionStreamService.name);
+  private readonly client: TwitterApi;
+  private stream: TweetStream<TweetV2SingleStreamResult> | null = null;
+  private needsBackfill = true;
+  private isSupervising = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly twitterService: TwitterService,
+    private readonly leaderElection: LeaderElectionService,
+    rateLimits: TwitterRateLimitService,
+  ) {
+    // The filtered stream only accepts app-only auth
+    this.client = new TwitterApi(configService.get('BEARER_TOKEN'), {
+      plugins: [rateLimits],
+    });
+  }
+
+  onApplicationShutdown() {
+    this.disconnect('shutting down');
+  }
+
+  isConnected(): boolean {
+    return this.stream !== null;
+  }
+
+  /**
+   * Opens the stream when this replica should be ingesting and closes it
+   * when it shouldn't, e.g. after losing leadership or being paused. Retries
+   * a failed backfill.
+   */
+  @Interval(10000)
+  async supervise(): Promise<void> {
+    if (this.twitterService.getIngestionMode() !== 'stream') {
+      return;
+    }
+    if (this.isSupervising) {
+      return;
+    }
+    this.isSupervising = true;
+    try {
+      if (!this.leaderElection.isLeader()) {
+        this.disconnect('not the leader');
+        return;
+      }
+      if (await this.twitterService.isMentionPollingPaused()) {
+        this.disconnect('mention ingestion is paused');
+        return;
+      }
+      if (!this.stream) {
+        await this.connect();
+      }
+      if (this.needsBackfill) {
+        await this.backfill();
+      }
+    } catch (error) {
+      this.logger.error('Error supervising the mention stream:', error);
+    } finally {
+      this.isSupervising = false;
+    }
+  }
+
+  /**
+   * Delay before reconnect attempt `attempt`: STREAM_RECONNECT_BASE_MS
+   * doubled per attempt, capped at STREAM_RECONNECT_MAX_MS. A 429 waits at
+   * least a minute, as Twitter asks.
+   */
+  getReconnectDelayMs(attempt: number, error?: { code?: number }): number {
+    const baseMs = parseInt(
+      this.configService.get('STREAM_RECONNECT_BASE_MS') ?? '5000',
+    );
+    const maxMs = parseInt(
+      this.configService.get('STREAM_RECONNECT_MAX_MS') ?? '320000',
+    );
+    const delayMs = Math.min(baseMs * 2 ** Math.max(attempt - 1, 0), maxMs);
+    return error?.code === 429 ? Math.max(delayMs, 60000) : delayMs;
+  }
+
+  private async connect() {
+    await this.ensureRule();
+
+    const stream = this.client.v2.searchStream({
+      ...MENTION_FIELDS,
+      autoConnect: false,
+    });
+    stream.on(ETwitterStreamEvent.Data, (event) => this.onMention(event));
+    stream.on(ETwitterStreamEvent.Connected, () =>
+      this.logger.log('📡 Mention stream connected'),
+    );
+    stream.on(ETwitterStreamEvent.Reconnected, () => {
+      this.logger.log('📡 Mention stream reconnected');
+      this.needsBackfill = true;
+      void this.supervise();
+    });
+    stream.on(ETwitterStreamEvent.ConnectionLost, () =>
+      this.logger.warn('Mention stream connection lost, reconnecting'),
+    );
+    stream.on(ETwitterStreamEvent.ReconnectAttempt, (attempt: number) =>
+      this.logger.warn(`Mention stream reconnect attempt ${attempt + 1}`),
+    );
+    stream.on(ETwitterStreamEvent.Error, (error) =>
+      this.logger.error(`Mention stream error: ${error.message}`),
+    );
+
+    this.stream = stream;
+    this.needsBackfill = true;
+    // A failed first connection is retried by the client too, so this only
+    // resolves once connected or retrying
+    await stream.connect({
+      autoReconnect: true,
+      autoReconnectRetries: 'unlimited',
+      nextRetryTimeout: (attempt, error) =>
+        this.getReconnectDelayMs(attempt + 1, error),
+    });
+  }
+
+  private disconnect(reason: string) {
+    if (!this.stream) {
+      return;
+    }
+    this.stream.destroy();
+    this.stream = null;
+    this.needsBackfill = true;
+    this.logger.log(`Mention stream closed (${reason})`);
+  }
+
+  /** Makes sure the stream carries exactly one rule for our mentions. */
+  private async ensureRule() {
+    const value = `@${this.configService.get('TWITTER_USER_NAME')}`;
+    const rules = await this.client.v2.streamRules();
+    const ours = (rules.data ?? []).filter(
+      (rule) => rule.tag === MENTION_STREAM_RULE_TAG,
+    );
+
+    const stale = ours.filter((rule) => rule.value !== value);
+    if (stale.length > 0) {
+      await this.client.v2.updateStreamRules({
+        delete: { ids: stale.map((rule) => rule.id) },
+      });
+    }
+    if (!ours.some((rule) => rule.value === value)) {
+      await this.client.v2.updateStreamRules({
+        add: [{ value, tag: MENTION_STREAM_RULE_TAG }],
+      });
+      this.logger.log(`Added stream rule ${value}`);
+    }
+  }
+
+  private async backfill() {
+    this.logger.log('Backfilling mentions missed while disconnected');
+    this.needsBackfill = !(await this.twitterService.ingestNewMentions());
+  }
+
+  private async onMention(event: TweetV2SingleStreamResult) {
+    try {
+      await this.twitterService.ingestStreamedMention(
+        event.data,
+        event.includes ?? {},
+        !this.needsBackfill,
+      );
+    } catch (error) {
+      // The next backfill picks it up from the cursor
+      this.logger.error(
+        `Failed to ingest streamed tweet ${event.data.id}:`,
+        error,
+      );
+      this.needsBackfill = true;
+    }
+  }
+}
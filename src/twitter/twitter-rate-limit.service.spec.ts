@@ -0,0 +1,110 @@
+import { ConfigService } from '@nestjs/config';
+import { Registry } from 'prom-client';
+import {
+  TWITTER_ENDPOINTS,
+  TwitterRateLimitedError,
+  TwitterRateLimitService,
+} from './twitter-rate-limit.service';
+
+describe('TwitterRateLimitService', () => {
+  let service: TwitterRateLimitService;
+  let registry: Registry;
+  const config: Record<string, string> = {};
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  const request = (method: string, url: string) => ({
+    client: null,
+    url: new URL(url),
+    params: { method, url },
+    computedParams: null,
+    requestOptions: {},
+  });
+
+  const respond = (
+    method: string,
+    url: string,
+    rateLimit: { limit: number; remaining: number; reset: number },
+  ) =>
+    service.onAfterRequest({
+      ...request(method, url),
+      response: { headers: {}, data: {}, rateLimit },
+    } as any);
+
+  beforeEach(() => {
+    registry = new Registry();
+    service = new TwitterRateLimitService(
+      { get: (key: string) => config[key] } as ConfigService,
+      registry,
+    );
+  });
+
+  it('records the limit per endpoint with IDs collapsed', () => {
+    respond('GET', 'https://api.twitter.com/2/users/123/mentions', {
+      limit: 180,
+      remaining: 179,
+      reset: nowSeconds() + 900,
+    });
+
+    expect(service.getLimits()).toEqual([
+      expect.objectContaining({
+        endpoint: TWITTER_ENDPOINTS.mentions,
+        limit: 180,
+        remaining: 179,
+      }),
+    ]);
+    expect(service.getDelaySeconds(TWITTER_ENDPOINTS.mentions)).toBe(0);
+  });
+
+  it('blocks an endpoint on a 429 until the reset', async () => {
+    service.onResponseError({
+      ...request('POST', 'https://api.twitter.com/2/tweets'),
+      error: {
+        code: 429,
+        rateLimit: {
+          limit: 200,
+          remaining: 150,
+          reset: nowSeconds() + 60,
+          day: { limit: 17, remaining: 0, reset: nowSeconds() + 3600 },
+        },
+      },
+    } as any);
+
+    expect(service.getDelaySeconds(TWITTER_ENDPOINTS.reply)).toBeGreaterThan(
+      3500,
+    );
+    await expect(service.throttle(TWITTER_ENDPOINTS.reply)).rejects.toThrow(
+      TwitterRateLimitedError,
+    );
+  });
+
+  it('waits out a window that resets soon', async () => {
+    jest.useFakeTimers();
+    respond('POST', 'https://api.twitter.com/2/tweets', {
+      limit: 200,
+      remaining: 0,
+      reset: nowSeconds() + 5,
+    });
+
+    let done = false;
+    const throttled = service
+      .throttle(TWITTER_ENDPOINTS.reply)
+      .then(() => (done = true));
+    await jest.advanceTimersByTimeAsync(6000);
+    await throttled;
+
+    expect(done).toBe(true);
+    jest.useRealTimers();
+  });
+
+  it('exposes the remaining budget as metrics', async () => {
+    respond('POST', 'https://upload.twitter.com/1.1/media/upload.json', {
+      limit: 500,
+      remaining: 42,
+      reset: nowSeconds() + 900,
+    });
+
+    expect(await registry.metrics()).toContain(
+      'twitter_rate_limit_remaining{endpoint="POST /1.1/media/upload.json"} 42',
+    );
+  });
+});
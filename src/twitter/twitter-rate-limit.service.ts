@@ -0,0 +1,178 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Gauge, Registry } from 'prom-client';
+import {
+  ITwitterApiAfterRequestHookArgs,
+  ITwitterApiBeforeRequestConfigHookArgs,
+  ITwitterApiClientPlugin,
+  ITwitterApiResponseErrorHookArgs,
+  TwitterRateLimit,
+} from 'twitter-api-v2';
+
+// Endpoint keys as recorded by the tracker, with IDs replaced by `:id`
+export const TWITTER_ENDPOINTS = {
+  mentions: 'GET /2/users/:id/mentions',
+  tweet: 'GET /2/tweets/:id',
+  reply: 'POST /2/tweets',
+  mediaUpload: 'POST /1.1/media/upload.json',
+};
+
+// Used when a 429 arrives without x-rate-limit-reset; Twitter's windows are
+// 15 minutes
+const DEFAULT_RESET_SECONDS = 15 * 60;
+
+export interface EndpointRateLimit {
+  endpoint: string;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export class TwitterRateLimitedError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly resetAt: Date,
+  ) {
+    super(`Rate limited on ${endpoint} until ${resetAt.toISOString()}`);
+    this.name = TwitterRateLimitedError.name;
+  }
+}
+
+/**
+ * Tracks the rate limit of every Twitter endpoint the bot calls, from the
+ * x-rate-limit-* headers on each response. Installed as a twitter-api-v2
+ * plugin, so every request through the client is seen.
+ */
+@Injectable()
+export class TwitterRateLimitService implements ITwitterApiClientPlugin {
+  private readonly logger = new Logger(TwitterRateLimitService.name);
+  private readonly limits = new Map<string, EndpointRateLimit>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    registry: Registry,
+  ) {
+    const limits = this.limits;
+    const gauges: [string, string, (limit: EndpointRateLimit) => number][] = [
+      [
+        'twitter_rate_limit_remaining',
+        'Requests left in the current rate-limit window',
+        (limit) => limit.remaining,
+      ],
+      [
+        'twitter_rate_limit_limit',
+        'Requests allowed per rate-limit window',
+        (limit) => limit.limit,
+      ],
+      [
+        'twitter_rate_limit_reset_timestamp_seconds',
+        'When the current rate-limit window resets',
+        (limit) => limit.resetAt.getTime() / 1000,
+      ],
+    ];
+    for (const [name, help, value] of gauges) {
+      new Gauge({
+        name,
+        help,
+        labelNames: ['endpoint'],
+        registers: [registry],
+        collect() {
+          this.reset();
+          for (const limit of limits.values()) {
+            this.set({ endpoint: limit.endpoint }, value(limit));
+          }
+        },
+      });
+    }
+  }
+
+  onAfterRequest(args: ITwitterApiAfterRequestHookArgs) {
+    this.record(this.endpointOf(args), args.response.rateLimit);
+  }
+
+  onResponseError(args: ITwitterApiResponseErrorHookArgs) {
+    const endpoint = this.endpointOf(args);
+    const { rateLimit } = args.error;
+    if (args.error.code !== 429) {
+      this.record(endpoint, rateLimit);
+      return;
+    }
+    // Twitter can answer 429 with headers that still show requests left,
+    // e.g. when a daily cap is hit; trust the status
+    const reset =
+      rateLimit?.day?.remaining === 0 ? rateLimit.day.reset : rateLimit?.reset;
+    this.record(endpoint, {
+      limit: rateLimit?.limit ?? 0,
+      remaining: 0,
+      reset: reset ?? Math.floor(Date.now() / 1000) + DEFAULT_RESET_SECONDS,
+    });
+    this.logger.warn(
+      `Rate limited on ${endpoint} until ${this.limits.get(endpoint).resetAt.toISOString()}`,
+    );
+  }
+
+  /** Seconds until `endpoint` may be called again, 0 if it can be now. */
+  getDelaySeconds(endpoint: string): number {
+    const limit = this.limits.get(endpoint);
+    if (!limit || limit.remaining > 0) {
+      return 0;
+    }
+    return Math.max(
+      0,
+      Math.ceil((limit.resetAt.getTime() - Date.now()) / 1000),
+    );
+  }
+
+  /**
+   * Waits out a short rate-limit window before calling `endpoint`. Throws
+   * TwitterRateLimitedError instead if the reset is further away than
+   * TWITTER_RATE_LIMIT_MAX_WAIT_SECONDS, so the caller can skip the call.
+   */
+  async throttle(endpoint: string): Promise<void> {
+    const delaySeconds = this.getDelaySeconds(endpoint);
+    if (delaySeconds === 0) {
+      return;
+    }
+    if (delaySeconds > this.getMaxWaitSeconds()) {
+      throw new TwitterRateLimitedError(
+        endpoint,
+        this.limits.get(endpoint).resetAt,
+      );
+    }
+    this.logger.log(`Waiting ${delaySeconds}s for ${endpoint} rate limit`);
+    await new Promise((resolve) => setTimeout(resolve, delaySeconds * 1000));
+  }
+
+  getLimits(): EndpointRateLimit[] {
+    return [...this.limits.values()];
+  }
+
+  private record(endpoint: string, rateLimit?: TwitterRateLimit) {
+    if (!rateLimit) {
+      return;
+    }
+    this.limits.set(endpoint, {
+      endpoint,
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      resetAt: new Date(rateLimit.reset * 1000),
+    });
+  }
+
+  private endpointOf(args: ITwitterApiBeforeRequestConfigHookArgs): string {
+    // Keep the leading API version, e.g. /2 or /1.1
+    const path = args.url.pathname
+      .split('/')
+      .map((segment, index) =>
+        index > 1 && /^\d+$/.test(segment) ? ':id' : segment,
+      )
+      .join('/');
+    return `${args.params.method.toUpperCase()} ${path}`;
+  }
+
+  private getMaxWaitSeconds(): number {
+    return parseInt(
+      this.configService.get('TWITTER_RATE_LIMIT_MAX_WAIT_SECONDS') ?? '30',
+    );
+  }
+}
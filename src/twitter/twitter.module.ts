@@ -1,7 +1,15 @@
 import { Module } from '@nestjs/common';
+import { LaunchLedgerModule } from '../ledger/launch-ledger.module';
+import { LeaderModule } from '../leader/leader.module';
+import { QueueModule } from '../queue/queue.module';
+import { QuotaModule } from '../quota/quota.module';
+import { MentionStreamService } from './mention-stream.service';
+import { TwitterRateLimitService } from './twitter-rate-limit.service';
 import { TwitterService } from './twitter.service';
 
 @Module({
-  providers: [TwitterService],
+  imports: [LaunchLedgerModule, LeaderModule, QueueModule, QuotaModule],
+  providers: [TwitterService, TwitterRateLimitService, MentionStreamService],
+  exports: [TwitterService, TwitterRateLimitService],
 })
 export class TwitterModule {}
@@ -1,12 +1,65 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
 import { TwitterService } from './twitter.service';
+import { LaunchLedgerService } from '../ledger/launch-ledger.service';
+import { BotStateService } from '../database/bot-state.service';
+import { JobQueueService } from '../queue/job-queue.service';
+import { QuotaService } from '../quota/quota.service';
+import { LeaderElectionService } from '../leader/leader-election.service';
+import {
+  TwitterRateLimitedError,
+  TwitterRateLimitService,
+} from './twitter-rate-limit.service';
 
 describe('TwitterService', () => {
   let service: TwitterService;
+  let botState: { get: jest.Mock; set: jest.Mock };
+  let quota: {
+    tryConsume: jest.Mock;
+    refund: jest.Mock;
+    getSecondsUntilReset: jest.Mock;
+  };
+  let leaderElection: { isLeader: jest.Mock };
+  let rateLimits: { throttle: jest.Mock; getDelaySeconds: jest.Mock };
+  let config: Record<string, string>;
+  let jobQueue: { enqueue: jest.Mock };
+  let launchLedger: { isProcessed: jest.Mock; record: jest.Mock };
 
   beforeEach(async () => {
+    config = {};
+    jobQueue = { enqueue: jest.fn().mockResolvedValue(true) };
+    launchLedger = {
+      isProcessed: jest.fn().mockResolvedValue(false),
+      record: jest.fn(),
+    };
+    botState = { get: jest.fn(), set: jest.fn() };
+    leaderElection = { isLeader: jest.fn().mockReturnValue(true) };
+    rateLimits = {
+      throttle: jest.fn().mockResolvedValue(undefined),
+      getDelaySeconds: jest.fn().mockReturnValue(0),
+    };
+    quota = {
+      tryConsume: jest.fn().mockResolvedValue(true),
+      refund: jest.fn(),
+      getSecondsUntilReset: jest.fn().mockResolvedValue(3600),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [TwitterService],
+      providers: [
+        TwitterService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] ?? `test-${key}` },
+        },
+        { provide: LaunchLedgerService, useValue: launchLedger },
+        { provide: BotStateService, useValue: botState },
+        { provide: JobQueueService, useValue: jobQueue },
+        { provide: SchedulerRegistry, useValue: {} },
+        { provide: QuotaService, useValue: quota },
+        { provide: LeaderElectionService, useValue: leaderElection },
+        { provide: TwitterRateLimitService, useValue: rateLimits },
+      ],
     }).compile();
 
     service = module.get<TwitterService>(TwitterService);
@@ -15,4 +68,279 @@ describe('TwitterService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('leaves mention polling to the leader', async () => {
+    leaderElection.isLeader.mockReturnValue(false);
+    const checkMentions = jest.spyOn(service as any, 'checkMentions');
+
+    await service.checkMentionsJob();
+
+    expect(checkMentions).not.toHaveBeenCalled();
+  });
+
+  it('does not poll while paused, even if another replica paused it', async () => {
+    botState.get.mockImplementation(async (key) =>
+      key === 'mentions.paused' ? 'true' : undefined,
+    );
+    const hasReplyBudget = jest
+      .spyOn(service, 'hasReplyBudget')
+      .mockResolvedValue(true);
+    const checkMentions = jest.spyOn(service as any, 'checkMentions');
+
+    await service.checkMentionsJob();
+
+    expect(botState.get).toHaveBeenCalledWith('mentions.paused');
+    expect(hasReplyBudget).not.toHaveBeenCalled();
+    expect(checkMentions).not.toHaveBeenCalled();
+  });
+
+  it('does not poll in stream mode', async () => {
+    config.MENTIONS_INGESTION_MODE = 'stream';
+    const checkMentions = jest.spyOn(service as any, 'checkMentions');
+
+    await service.checkMentionsJob();
+
+    expect(service.getIngestionMode()).toBe('stream');
+    expect(checkMentions).not.toHaveBeenCalled();
+  });
+
+  describe('reply quota', () => {
+    it('takes a unit per reply', async () => {
+      const reply = jest.fn().mockResolvedValue({ data: { id: 'r1' } });
+      (service as any).twitterClient = { v2: { reply } };
+
+      await expect(service.replyToTweet('1', 'hi')).resolves.toBe('r1');
+      expect(quota.tryConsume).toHaveBeenCalledWith('replies');
+      expect(quota.refund).not.toHaveBeenCalled();
+    });
+
+    it('does not reply once the quota is used up', async () => {
+      quota.tryConsume.mockResolvedValue(false);
+      const reply = jest.fn();
+      (service as any).twitterClient = { v2: { reply } };
+
+      await expect(service.replyToTweet('1', 'hi')).resolves.toBeNull();
+      expect(reply).not.toHaveBeenCalled();
+    });
+
+    it('skips the reply while the endpoint is rate limited', async () => {
+      rateLimits.throttle.mockRejectedValue(
+        new TwitterRateLimitedError('POST /2/tweets', new Date()),
+      );
+      const reply = jest.fn();
+      (service as any).twitterClient = { v2: { reply } };
+
+      await expect(service.replyToTweet('1', 'hi')).resolves.toBeNull();
+      expect(reply).not.toHaveBeenCalled();
+      expect(quota.tryConsume).not.toHaveBeenCalled();
+    });
+
+    it('says when a held-back reply could go out', async () => {
+      const resetAt = new Date(Date.now() + 900 * 1000);
+      rateLimits.throttle.mockRejectedValueOnce(
+        new TwitterRateLimitedError('POST /2/tweets', resetAt),
+      );
+      (service as any).twitterClient = { v2: { reply: jest.fn() } };
+
+      await expect(service.sendReply('1', 'hi')).resolves.toEqual({
+        blockedUntil: resetAt,
+      });
+
+      quota.tryConsume.mockResolvedValue(false);
+      const { blockedUntil } = await service.sendReply('1', 'hi');
+      expect(blockedUntil.getTime() - Date.now()).toBeGreaterThan(3500 * 1000);
+    });
+
+    it('refunds the unit when the reply fails', async () => {
+      const reply = jest.fn().mockRejectedValue(new Error('503'));
+      (service as any).twitterClient = { v2: { reply } };
+
+      await expect(service.replyToTweet('1', 'hi')).resolves.toBeNull();
+      expect(quota.refund).toHaveBeenCalledWith('replies');
+    });
+  });
+
+  it('fetches the media of the tweet a mention replies to', async () => {
+    const singleTweet = jest.fn().mockResolvedValue({
+      data: { id: 'p' },
+      includes: {
+        media: [
+          {
+            media_key: 'm1',
+            type: 'photo',
+            url: 'https://pbs.twimg.com/m1.jpg',
+          },
+        ],
+      },
+    });
+    (service as any).twitterClient = { v2: { singleTweet } };
+
+    await service.ingestStreamedMention(
+      {
+        id: '1',
+        text: '@bot make this a token',
+        author_id: 'a1',
+        referenced_tweets: [{ type: 'replied_to', id: 'p' }],
+      } as any,
+      {
+        users: [{ id: 'a1', username: 'alice' }],
+        tweets: [{ id: 'p', attachments: { media_keys: ['m1'] } }],
+      } as any,
+      false,
+    );
+
+    expect(singleTweet).toHaveBeenCalledWith(
+      'p',
+      expect.objectContaining({ expansions: ['attachments.media_keys'] }),
+    );
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(
+      '1',
+      expect.objectContaining({
+        imageUrl: 'https://pbs.twimg.com/m1.jpg',
+        imageSource: 'replied_tweet',
+      }),
+    );
+  });
+
+  it('fetches the media of a quoted tweet from a polled page', async () => {
+    botState.get.mockResolvedValue('100');
+    const userMentionTimeline = jest
+      .fn()
+      .mockResolvedValueOnce({
+        data: {
+          data: [{ id: '102', text: '@bot gm', author_id: 'a2' }],
+          meta: { newest_id: '102', next_token: 'page-2' },
+        },
+      })
+      .mockResolvedValueOnce({
+        data: {
+          data: [
+            {
+              id: '101',
+              text: '@bot make this a token',
+              author_id: 'a1',
+              referenced_tweets: [{ type: 'quoted', id: 'q' }],
+            },
+          ],
+          includes: {
+            users: [{ id: 'a1', username: 'alice' }],
+            tweets: [{ id: 'q', attachments: { media_keys: ['m1'] } }],
+          },
+          meta: { newest_id: '101' },
+        },
+      });
+    const singleTweet = jest.fn().mockResolvedValue({
+      data: { id: 'q' },
+      includes: {
+        media: [
+          {
+            media_key: 'm1',
+            type: 'photo',
+            url: 'https://pbs.twimg.com/m1.jpg',
+          },
+        ],
+      },
+    });
+    (service as any).twitterClient = {
+      v2: { userMentionTimeline, singleTweet },
+    };
+
+    await service.ingestNewMentions();
+
+    expect(singleTweet).toHaveBeenCalledWith('q', expect.anything());
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(
+      '101',
+      expect.objectContaining({
+        imageUrl: 'https://pbs.twimg.com/m1.jpg',
+        imageSource: 'quoted_tweet',
+      }),
+    );
+  });
+
+  describe('mention cursor', () => {
+    it('pages from the stored since_id until caught up', async () => {
+      botState.get.mockResolvedValue('100');
+      const userMentionTimeline = jest
+        .fn()
+        .mockResolvedValueOnce({
+          data: {
+            data: [{ id: '103' }, { id: '102' }],
+            includes: { users: [{ id: 'u1' }] },
+            meta: { newest_id: '103', next_token: 'page-2' },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: { data: [{ id: '101' }], meta: { newest_id: '101' } },
+        });
+      (service as any).twitterClient = { v2: { userMentionTimeline } };
+
+      const batch = await (service as any).checkMentions('me');
+
+      expect(userMentionTimeline).toHaveBeenCalledTimes(2);
+      expect(userMentionTimeline.mock.calls[0][1]).toMatchObject({
+        since_id: '100',
+      });
+      expect(userMentionTimeline.mock.calls[1][1]).toMatchObject({
+        since_id: '100',
+        pagination_token: 'page-2',
+      });
+      expect(batch.data.map((tweet) => tweet.id)).toEqual([
+        '101',
+        '102',
+        '103',
+      ]);
+      expect(batch.newestId).toBe('103');
+    });
+
+    it('stops at a mention the ledger could not be checked for', async () => {
+      botState.get.mockResolvedValue('100');
+      const userMentionTimeline = jest.fn().mockResolvedValue({
+        data: {
+          data: [
+            { id: '102', text: '@bot hi', author_id: 'a2' },
+            { id: '101', text: '@bot hi', author_id: 'a1' },
+          ],
+          meta: { newest_id: '102' },
+        },
+      });
+      (service as any).twitterClient = { v2: { userMentionTimeline } };
+      launchLedger.isProcessed
+        .mockResolvedValueOnce(false)
+        .mockRejectedValueOnce(new Error('connection terminated'));
+
+      await expect(service.ingestNewMentions()).resolves.toBe(false);
+
+      expect(jobQueue.enqueue).toHaveBeenCalledTimes(1);
+      expect(jobQueue.enqueue).toHaveBeenCalledWith('101', expect.anything());
+      expect(botState.set).toHaveBeenLastCalledWith('mentions.since_id', '101');
+    });
+
+    it('stops the cursor at the last ingested mention', async () => {
+      const batch = {
+        data: [{ id: '101' }, { id: '102' }, { id: '103' }],
+        includes: {},
+        newestId: '103',
+      };
+
+      await (service as any).advanceMentionCursor(batch, '101');
+      expect(botState.set).toHaveBeenLastCalledWith('mentions.since_id', '101');
+
+      await (service as any).advanceMentionCursor(batch, '103');
+      expect(botState.set).toHaveBeenLastCalledWith('mentions.since_id', '103');
+    });
+
+    it('only moves the cursor forward for streamed mentions', async () => {
+      jest.spyOn(service as any, 'ingestMention').mockResolvedValue(undefined);
+      botState.get.mockResolvedValue('1000');
+
+      await service.ingestStreamedMention({ id: '999' } as any, {}, true);
+      expect(botState.set).not.toHaveBeenCalled();
+
+      await service.ingestStreamedMention({ id: '1001' } as any, {}, false);
+      expect(botState.set).not.toHaveBeenCalled();
+
+      await service.ingestStreamedMention({ id: '1001' } as any, {}, true);
+      expect(botState.set).toHaveBeenCalledWith('mentions.since_id', '1001');
+    });
+  });
 });